@@ -44,7 +44,8 @@ async function main() {
   const costOptimizedRoute = await router.findOptimalRoute({
     amount: 1000000n, // 1 USDC
     privacyLevel: 'medium',
-    maxGasPrice: 20n // gwei
+    maxGasPrice: 20n, // gwei
+    optimizationMode: 'cost'
   });
 
   console.log(`✓ Optimal route: ${costOptimizedRoute.chain}`);
@@ -52,9 +53,27 @@ async function main() {
   console.log(`  - Privacy score: ${costOptimizedRoute.privacyScore.toFixed(2)}`);
   console.log(`  - Success rate: ${(costOptimizedRoute.successRate * 100).toFixed(1)}%\n`);
 
-  // Update history after successful payment
-  router.updateHistory(highPrivacyRoute.chain, highPrivacyRoute);
-  console.log('✓ Updated routing history\n');
+  // Example 4: Latency-first checkout payment
+  console.log('Example 4: Speed-Optimized Checkout');
+  const checkoutRoute = await router.findOptimalRoute({
+    amount: 2000000n, // 2 USDC
+    privacyLevel: 'medium',
+    optimizationMode: 'speed'
+  });
+
+  console.log(`✓ Optimal route: ${checkoutRoute.chain}`);
+  console.log(`  - Estimated time: ${checkoutRoute.estimatedTime}ms`);
+  console.log(`  - Success rate: ${(checkoutRoute.successRate * 100).toFixed(1)}%\n`);
+
+  // Record outcome after payment confirms
+  router.recordOutcome({
+    chain: highPrivacyRoute.chain,
+    amount: 5000000n,
+    success: true,
+    actualGas: highPrivacyRoute.estimatedGas,
+    latency: highPrivacyRoute.estimatedTime
+  });
+  console.log('✓ Recorded route outcome\n');
 
   console.log('=== Example Complete ===');
 }
@@ -46,13 +46,20 @@ async function main() {
 
   // Train model
   console.log('Training reputation model...');
+  // One labeled sample per pseudonym: its history and its reputation score
   const trainingData: TrainingData = {
-    payments: paymentHistory,
-    labels: [60, 65, 70, 75] // Reputation scores
+    samples: [
+      { payments: paymentHistory, label: 75 },
+      { payments: paymentHistory.slice(0, 2), label: 60 },
+      {
+        payments: paymentHistory.map(p => ({ ...p, pseudonym: new Uint8Array(32).fill(3), success: false })),
+        label: 20
+      }
+    ]
   };
 
-  await learner.train(trainingData);
-  console.log('✓ Model trained\n');
+  const summary = await learner.train(trainingData);
+  console.log(`✓ Model trained on ${summary.samples} samples (loss ${summary.loss.toFixed(3)})\n`);
 
   // Predict reputation for existing user
   console.log('Predicting reputation for existing user...');
@@ -5,13 +5,37 @@
  */
 
 // Intelligence Components
-export { AIPaymentRouter, PaymentRoute, RoutingOptions } from './intelligence/payment-optimizer';
-export { AIReputationLearner, PaymentPattern, ReputationPrediction, TrainingData } from './intelligence/reputation-learner';
+export { AIPaymentRouter, PaymentRoute, RoutingOptions, RouterConfig, RankedRoute, RouteRanking, RouteRejectionReason, RouteHop } from './intelligence/payment-optimizer';
+export { SplitRoute, SplitLeg, SplitRoutingOptions, SplitAmount, splitAmount, DEFAULT_DENOMINATIONS } from './intelligence/payment-splitter';
+export { OptimizationMode, ScoringWeights, RouteScore, RouteScorer, WeightedRouteScorer, MODE_WEIGHTS, routeCostUsd, hopCostUsd } from './intelligence/route-scoring';
+export { RouteLedger, RouteLedgerOptions, RouteOutcome, LedgerStats } from './intelligence/route-ledger';
+export { GasForecaster, GasForecasterOptions, GasForecast, GasSample, SendRecommendation } from './intelligence/gas-forecaster';
+export { RouteBandit, BanditOptions, BanditArm, BanditSelection, SelectionStrategy } from './intelligence/route-bandit';
+export { BridgeGraph, BridgeEdge, BridgeEdgeInput, BridgePath, DEFAULT_BRIDGES } from './intelligence/bridge-graph';
+export { FeeModel, FeeEstimate, PriceSource, StaticPriceSource, MetricsLookup } from './intelligence/fee-model';
+export { ChainRegistry, ChainConfig, ChainConfigInput, ChainFamily, DEFAULT_CHAINS } from './intelligence/chain-registry';
+export { ChainMetrics, ChainMetricsProvider, ChainMetricsListener, JsonRpcMetricsProvider, JsonRpcProviderOptions, InMemoryMetricsProvider } from './intelligence/chain-metrics';
+export { AIReputationLearner, LearnerConfig, PaymentPattern, ReputationPrediction, TrainingData, TrainingSample } from './intelligence/reputation-learner';
+export { ReputationStateStore, ReputationStateOptions, ReputationAggregate, StatePayment } from './intelligence/reputation-state';
+export { MlpReputationModel, RandomForestReputationModel, GradientBoostingReputationModel, MlpOptions, TreeOptions, RandomForestOptions, GradientBoostingOptions, ReputationBackendOptions, MODEL_TYPES, createReputationBackend } from './intelligence/reputation-backends';
+export { ModelArtifact, TrainingMetadata, CheckpointInfo, MODEL_ARTIFACT_FORMAT, MODEL_ARTIFACT_VERSION, createArtifact, verifyArtifact, readArtifact, writeArtifact, writeCheckpoint, listCheckpoints } from './intelligence/model-artifact';
+export { EvaluationOptions, EvaluationReport, RegressionMetrics, CalibrationBin, CalibrationReport, ScoredPrediction, regressionMetrics, calibrationCurve, kFolds, holdout } from './intelligence/reputation-evaluation';
+export { LogisticReputationModel, ReputationFeatures, TrainingOptions, TrainingSummary, Standardization, ModelState, ModelType, ReputationModelBackend, EpochCallback, REPUTATION_FEATURES, featureVector } from './intelligence/reputation-model';
 export { PrivacyAdapter, PrivacyConfiguration, PrivacyContext, PrivacyLevel, ThreatLevel } from './intelligence/privacy-adapter';
-export { FraudDetector, PaymentData, FraudAssessment, DetectionOptions } from './intelligence/fraud-detector';
+export { FraudDecisionPolicy, FraudPolicyOptions, FraudDecision, FraudAction, PolicyThresholds, PaymentBlockedError, REFUSING_ACTIONS, DEFAULT_POLICY_THRESHOLDS } from './intelligence/fraud-policy';
+export { RiskAttestor, RiskAttestorOptions, RiskAttestation, AttestedRiskLevel, AttestationRequirements, AttestationVerification, verifyRiskAttestation } from './intelligence/risk-attestation';
+export { FraudCaseManager, FraudCase, CaseVerdict, CaseStatus, CaseManagerOptions, RuleMetrics } from './intelligence/fraud-cases';
+export { CollusionGraph, CollusionOptions, CollusionPayment, ClusterInfo } from './intelligence/collusion-graph';
+export { AnomalyModel, ZScoreModel, ZScoreModelOptions, MadModel, MadModelOptions, IsolationForestModel, IsolationForestOptions } from './intelligence/anomaly-models';
+export { FraudRuleEngine, FraudRuleEngineOptions, FraudRule, FraudRuleSet, RuleCondition, RuleEvaluation, ComparisonOperator, DEFAULT_FRAUD_RULES, RULE_FEATURES } from './intelligence/fraud-rules';
+export { VelocityTracker, VelocityOptions, VelocityWindow, VelocityUsage, VelocityBreach, VelocityCheck, DEFAULT_VELOCITY_WINDOWS } from './intelligence/velocity-tracker';
+export { ReplayGuard, ReplayGuardOptions, ReplayCheck, ReplayMatch, ReplayCandidate } from './intelligence/replay-guard';
+export { PatternStore, PatternStoreOptions, PatternSnapshot, PatternPayment } from './intelligence/pattern-store';
+export { PrivateFeatureStore, PrivateFeatureOptions } from './intelligence/private-features';
+export { FraudDetector, FraudDetectorConfig, FeatureSet, PaymentData, FraudAssessment, DetectionOptions } from './intelligence/fraud-detector';
 
 // Integration Components
-export { X402AIBridge, X402PaymentRequest, OptimizedX402Payment } from './integration/x402-ai-bridge';
+export { X402AIBridge, X402PaymentRequest, OptimizedX402Payment, BridgeConfig } from './integration/x402-ai-bridge';
 export { ShadowOSIntelligence, IntelligenceConfig, IntelligenceSummary } from './integration/shadowos-intelligence';
 
 // Main export
@@ -94,14 +94,15 @@ export class ShadowOSIntelligence {
         riskScore: 0.5,
         riskLevel: 'medium',
         anomalies: [],
-        confidence: 0.5
+        confidence: 0.5,
+        hardLimits: [],
+        firedRules: [],
+        modelScores: {},
+        flagged: false
       };
     }
 
-    return this.fraudDetector.assessRisk(payment, {
-      preservePrivacy: true,
-      sensitivity: 0.5
-    });
+    return this.fraudDetector.assessRisk(payment, { preservePrivacy: true });
   }
 
   /**
@@ -119,8 +120,7 @@ export class ShadowOSIntelligence {
           pseudonym: payment.pseudonym,
           amount: payment.amount,
           timestamp: payment.timestamp,
-          chain: payment.chain,
-          commitment: new Uint8Array(32)
+          chain: payment.chain
         };
         this.fraudDetector.updatePattern(paymentData);
       }
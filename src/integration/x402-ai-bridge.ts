@@ -4,47 +4,85 @@
  * Integrates AI intelligence with X402 stealth payments
  */
 
-import { AIPaymentRouter, PaymentRoute, RoutingOptions } from '../intelligence/payment-optimizer';
-import { PrivacyAdapter, PrivacyConfiguration, PrivacyContext } from '../intelligence/privacy-adapter';
+import { AIPaymentRouter, PaymentRoute, RouteHop, RoutingOptions } from '../intelligence/payment-optimizer';
+import { SplitLeg, SplitRoute } from '../intelligence/payment-splitter';
+import { hopCostUsd } from '../intelligence/route-scoring';
+import { FeeEstimate } from '../intelligence/fee-model';
+import { PrivacyAdapter, PrivacyConfiguration, PrivacyContext, TransactionType } from '../intelligence/privacy-adapter';
 import { FraudDetector, PaymentData, FraudAssessment } from '../intelligence/fraud-detector';
+import {
+  FraudDecisionPolicy,
+  FraudDecision,
+  FraudPolicyOptions,
+  PaymentBlockedError,
+  REFUSING_ACTIONS
+} from '../intelligence/fraud-policy';
 
 export interface X402PaymentRequest {
   stealthAddress: Uint8Array;
   amount: bigint;
   targetChain?: string;
+  sourceChain?: string; // where the payer's funds sit
   privacyLevel?: 'low' | 'medium' | 'high' | 'maximum';
   userPseudonym: Uint8Array;
+  allowSplit?: boolean; // return a multi-leg plan for large amounts
+  maxLegs?: number;
+  transactionType?: TransactionType; // selects fraud policy thresholds (default 'payment')
+  commitment?: Uint8Array; // X402 payment commitment, once built (enables replay checks)
 }
 
 export interface OptimizedX402Payment {
   route: PaymentRoute;
   privacyConfig: PrivacyConfiguration;
   fraudAssessment: FraudAssessment;
+  decision: FraudDecision; // 'allow' or 'step_up_privacy'; other actions throw PaymentBlockedError
   recommendedChain: string;
-  estimatedCost: bigint;
+  hops: RouteHop[]; // bridge hops from sourceChain to recommendedChain
+  estimatedCost: bigint; // native smallest unit on recommendedChain (all legs there), incl. proof overhead
+  estimatedCostByChain: Record<string, bigint>; // native smallest unit per chain, all legs
+  estimatedCostUsd: number | null; // all legs of a split plan; null without prices
+  splitRoute?: SplitRoute; // present when the payment is split across legs
+}
+
+export interface BridgeConfig {
+  fraudPolicy?: FraudPolicyOptions; // thresholds per transaction type
 }
 
 export class X402AIBridge {
   private router: AIPaymentRouter;
   private privacyAdapter: PrivacyAdapter;
   private fraudDetector: FraudDetector;
+  private fraudPolicy: FraudDecisionPolicy;
+  private issuedLegs: WeakMap<X402PaymentRequest, SplitLeg[]> = new WeakMap();
 
-  constructor() {
+  constructor(config: BridgeConfig = {}) {
     this.router = new AIPaymentRouter();
     this.privacyAdapter = new PrivacyAdapter();
     this.fraudDetector = new FraudDetector();
+    this.fraudPolicy = new FraudDecisionPolicy(config.fraudPolicy);
   }
 
   /**
    * Optimize X402 payment with AI
+   *
+   * Throws PaymentBlockedError when the fraud policy blocks or holds the
+   * payment or requires reputation; no route is returned in those cases.
    */
   async optimizePayment(request: X402PaymentRequest): Promise<OptimizedX402Payment> {
-    // Find optimal route
-    const route = await this.router.findOptimalRoute({
+    const routingOptions: RoutingOptions = {
       amount: request.amount,
       targetChain: request.targetChain,
+      sourceChain: request.sourceChain,
       privacyLevel: request.privacyLevel || 'high'
-    });
+    };
+
+    // Find optimal route (or split plan; first leg stands in as the route)
+    const splitRoute = request.allowSplit
+      ? await this.router.findSplitRoute({ ...routingOptions, maxLegs: request.maxLegs })
+      : undefined;
+    const route = splitRoute
+      ? splitRoute.legs[0].route
+      : await this.router.findOptimalRoute(routingOptions);
 
     // Assess fraud risk
     const paymentData: PaymentData = {
@@ -52,33 +90,60 @@ export class X402AIBridge {
       amount: request.amount,
       timestamp: BigInt(Date.now()),
       chain: route.chain,
-      commitment: new Uint8Array(32) // Will be set by X402
+      commitment: request.commitment,
+      stealthAddress: request.stealthAddress
     };
 
-    const fraudAssessment = await this.fraudDetector.assessRisk(paymentData, {
-      preservePrivacy: true,
-      sensitivity: 0.5
-    });
+    const fraudAssessment = await this.fraudDetector.assessRisk(paymentData, { preservePrivacy: true });
 
-    // Adapt privacy level based on risk
+    // Enforce the fraud policy
+    const transactionType = request.transactionType || 'payment';
+    const decision = this.fraudPolicy.decide(fraudAssessment, transactionType);
+    if (REFUSING_ACTIONS.includes(decision.action)) {
+      throw new PaymentBlockedError(decision, fraudAssessment);
+    }
+
+    // Adapt privacy level based on risk (step_up_privacy raises it to critical)
     const privacyContext: PrivacyContext = {
       userPseudonym: request.userPseudonym,
-      transactionType: 'payment',
+      transactionType,
       amount: request.amount,
-      threatLevel: this.fraudToThreat(fraudAssessment.riskLevel)
+      threatLevel: decision.action === 'allow'
+        ? this.fraudToThreat(fraudAssessment.riskLevel)
+        : 'critical'
     };
 
     const privacyConfig = await this.privacyAdapter.adaptPrivacyLevel(privacyContext);
 
-    // Calculate estimated cost
-    const estimatedCost = this.calculateCost(route, privacyConfig);
+    const legs = splitRoute
+      ? splitRoute.legs
+      : [{ amount: request.amount, standardDenomination: false, route }];
+    this.issuedLegs.set(request, legs);
+
+    // Calculate estimated cost (every leg pays its own gas, proof and bridge hops)
+    const legRoutes = legs.map(leg => leg.route);
+    const legCosts = await Promise.all(legRoutes.map(r => this.calculateCost(r, privacyConfig)));
+    const estimatedCostByChain: Record<string, bigint> = {};
+    legCosts.forEach((cost, i) => {
+      const chain = legRoutes[i].chain;
+      estimatedCostByChain[chain] = (estimatedCostByChain[chain] ?? 0n) + (cost?.nativeCost ?? 0n);
+    });
+    const hopCostsUsd = legRoutes.map(hopCostUsd);
+    const estimatedCostUsd = legCosts.every(c => c?.usdCost != null) && hopCostsUsd.every(c => c !== null)
+      ? legCosts.reduce((sum, c, i) => sum + c!.usdCost! + hopCostsUsd[i]!, 0)
+      : null;
 
     return {
       route,
       privacyConfig,
       fraudAssessment,
+      decision,
       recommendedChain: route.chain,
-      estimatedCost
+      hops: route.hops || [],
+      estimatedCost: estimatedCostByChain[route.chain] ?? 0n,
+      estimatedCostByChain,
+      estimatedCostUsd,
+      splitRoute
     };
   }
 
@@ -96,44 +161,67 @@ export class X402AIBridge {
   }
 
   /**
-   * Calculate estimated cost
+   * Calculate estimated cost (null for chains without a fee model)
    */
-  private calculateCost(route: PaymentRoute, privacy: PrivacyConfiguration): bigint {
-    // Base gas cost
-    const gasCost = route.estimatedGas;
+  private async calculateCost(
+    route: PaymentRoute,
+    privacy: PrivacyConfiguration
+  ): Promise<FeeEstimate | null> {
+    if (!route.fee) return null;
 
-    // Privacy overhead (more privacy = more gas)
-    const privacyMultiplier = privacy.proofSize / 1024; // Normalize by 1KB
+    // Privacy overhead: proof bytes posted with the transaction, as calldata
+    // and (on rollups) as data published to the settlement chain
+    const proofUnits = this.router.dataUnits(route.chain, privacy.proofSize);
 
-    return gasCost * BigInt(Math.ceil(privacyMultiplier));
+    return this.router.estimateFee(route.chain, route.estimatedGas + proofUnits, privacy.proofSize);
   }
 
   /**
-   * Update learning from successful payment
+   * Update learning from a completed (or failed) payment
+   *
+   * `route` defaults to the route (or split legs) `optimizePayment` issued
+   * for this request, falling back to the requested target chain. Each leg
+   * is recorded on its own chain with its own amount; `actualGas` is the
+   * total over all legs and is apportioned by each leg's estimated gas.
+   * Without a known chain the route ledger is left alone, but the fraud
+   * pattern is always updated, once per payment.
    */
   async learnFromPayment(
     payment: X402PaymentRequest,
     success: boolean,
-    actualGas: bigint
+    actualGas: bigint,
+    route?: PaymentRoute,
+    latency?: number
   ): Promise<void> {
-    // Update router history
-    const route = await this.router.findOptimalRoute({
-      amount: payment.amount,
-      targetChain: payment.targetChain,
-      privacyLevel: payment.privacyLevel || 'high'
-    });
-
-    if (success) {
-      this.router.updateHistory(route.chain, route);
+    const issued = route ? undefined : this.issuedLegs.get(payment);
+    const chain = route?.chain || payment.targetChain;
+    const legs = issued
+      ? issued.map(leg => ({ chain: leg.route.chain, amount: leg.amount, gas: leg.route.estimatedGas }))
+      : chain ? [{ chain, amount: payment.amount, gas: 1n }] : [];
+
+    // Record what actually happened on the chosen route
+    const totalGas = legs.reduce((sum, leg) => sum + leg.gas, 0n);
+    for (const leg of legs) {
+      this.router.recordOutcome({
+        chain: leg.chain,
+        amount: leg.amount,
+        success,
+        actualGas: totalGas > 0n ? (actualGas * leg.gas) / totalGas : actualGas,
+        latency
+      });
     }
 
-    // Update fraud detector pattern
+    // Update fraud detector pattern (chain as assessed: the first leg, or the router's pick)
     const paymentData: PaymentData = {
       pseudonym: payment.userPseudonym,
       amount: payment.amount,
       timestamp: BigInt(Date.now()),
-      chain: route.chain,
-      commitment: new Uint8Array(32)
+      chain: legs[0]?.chain ?? (await this.router.findOptimalRoute({
+        amount: payment.amount,
+        privacyLevel: payment.privacyLevel || 'high'
+      })).chain,
+      commitment: payment.commitment,
+      stealthAddress: payment.stealthAddress
     };
 
     this.fraudDetector.updatePattern(paymentData);
@@ -0,0 +1,359 @@
+/**
+ * Online Anomaly Models
+ *
+ * Streaming scorers that learn what normal traffic looks like, per
+ * pseudonym and globally, and score new payments 0 (normal) to 1
+ * (outlier). All models keep bounded state: per-key statistics are
+ * evicted least-recently-used and sample buffers are fixed-size rings.
+ */
+
+import { mulberry32 } from './random';
+
+export interface AnomalyModel {
+  readonly name: string;
+
+  /**
+   * Anomaly score for a feature vector, 0 (normal) to 1 (outlier)
+   */
+  score(key: string, vector: number[]): number;
+
+  /**
+   * Learn from an observed feature vector
+   */
+  update(key: string, vector: number[]): void;
+}
+
+export interface ZScoreModelOptions {
+  minObservations?: number; // per-key stats are ignored below this
+  minStd?: number; // floor on std-dev so constant features don't explode
+  threshold?: number; // |z| below this scores 0
+  saturation?: number; // |z| at or above this scores 1
+  maxKeys?: number;
+}
+
+export interface MadModelOptions {
+  window?: number; // recent values kept per key
+  globalWindow?: number; // recent values kept globally
+  minObservations?: number;
+  minMad?: number;
+  threshold?: number; // robust |z| below this scores 0
+  saturation?: number; // robust |z| at or above this scores 1
+  maxKeys?: number;
+}
+
+export interface IsolationForestOptions {
+  trees?: number;
+  sampleSize?: number; // points per tree
+  bufferSize?: number; // recent vectors kept for training
+  retrainEvery?: number; // updates between retrains
+  minTrainingSize?: number;
+  seed?: number;
+}
+
+/**
+ * Per-feature online z-score (Welford mean/variance)
+ */
+export class ZScoreModel implements AnomalyModel {
+  readonly name = 'zscore';
+  private minObservations: number;
+  private minStd: number;
+  private threshold: number;
+  private saturation: number;
+  private maxKeys: number;
+  private global?: RunningStats;
+  private perKey: Map<string, RunningStats> = new Map();
+
+  constructor(options: ZScoreModelOptions = {}) {
+    this.minObservations = Math.max(2, options.minObservations ?? 5);
+    this.minStd = options.minStd ?? 0.1;
+    this.threshold = options.threshold ?? 2;
+    this.saturation = options.saturation ?? 4;
+    this.maxKeys = options.maxKeys ?? 10000;
+  }
+
+  score(key: string, vector: number[]): number {
+    const scores = [this.global, this.perKey.get(key)]
+      .filter((stats): stats is RunningStats => !!stats && stats.count >= this.minObservations)
+      .map(stats => {
+        let maxZ = 0;
+        vector.forEach((value, i) => {
+          const variance = stats.m2[i] / (stats.count - 1);
+          const std = Math.max(this.minStd, Math.sqrt(variance));
+          maxZ = Math.max(maxZ, Math.abs(value - stats.mean[i]) / std);
+        });
+        return ramp(maxZ, this.threshold, this.saturation);
+      });
+
+    return scores.length > 0 ? Math.max(...scores) : 0;
+  }
+
+  update(key: string, vector: number[]): void {
+    this.global = this.global || createStats(vector.length);
+    welford(this.global, vector);
+
+    const stats = touch(this.perKey, key, this.maxKeys) || createStats(vector.length);
+    welford(stats, vector);
+    this.perKey.set(key, stats);
+  }
+}
+
+/**
+ * Per-feature median absolute deviation over recent values
+ */
+export class MadModel implements AnomalyModel {
+  readonly name = 'mad';
+  private window: number;
+  private minObservations: number;
+  private minMad: number;
+  private threshold: number;
+  private saturation: number;
+  private maxKeys: number;
+  private global: RingBuffer<number[]>;
+  private perKey: Map<string, RingBuffer<number[]>> = new Map();
+
+  constructor(options: MadModelOptions = {}) {
+    this.window = options.window ?? 50;
+    this.minObservations = options.minObservations ?? 5;
+    this.minMad = options.minMad ?? 0.1;
+    this.threshold = options.threshold ?? 3;
+    this.saturation = options.saturation ?? 6;
+    this.maxKeys = options.maxKeys ?? 10000;
+    this.global = new RingBuffer(options.globalWindow ?? 500);
+  }
+
+  score(key: string, vector: number[]): number {
+    const scores = [this.global, this.perKey.get(key)]
+      .filter((buffer): buffer is RingBuffer<number[]> => !!buffer && buffer.size() >= this.minObservations)
+      .map(buffer => {
+        const values = buffer.values();
+        let maxZ = 0;
+        vector.forEach((value, i) => {
+          const column = values.map(v => v[i]);
+          const med = median(column);
+          const mad = Math.max(this.minMad, median(column.map(v => Math.abs(v - med))));
+          // 0.6745 scales MAD to a std-dev under normality
+          maxZ = Math.max(maxZ, (0.6745 * Math.abs(value - med)) / mad);
+        });
+        return ramp(maxZ, this.threshold, this.saturation);
+      });
+
+    return scores.length > 0 ? Math.max(...scores) : 0;
+  }
+
+  update(key: string, vector: number[]): void {
+    this.global.push(vector);
+
+    const buffer = touch(this.perKey, key, this.maxKeys) || new RingBuffer<number[]>(this.window);
+    buffer.push(vector);
+    this.perKey.set(key, buffer);
+  }
+}
+
+/**
+ * Isolation forest over recent global traffic
+ *
+ * Per-pseudonym histories are too short to isolate points, so the
+ * forest is global; `key` is ignored.
+ */
+export class IsolationForestModel implements AnomalyModel {
+  readonly name = 'isolation_forest';
+  private trees: number;
+  private sampleSize: number;
+  private retrainEvery: number;
+  private minTrainingSize: number;
+  private buffer: RingBuffer<number[]>;
+  private forest: IsolationNode[] = [];
+  private trainedSize: number = 0;
+  private updatesSinceTraining: number = 0;
+  private random: () => number;
+
+  constructor(options: IsolationForestOptions = {}) {
+    this.trees = options.trees ?? 50;
+    this.sampleSize = options.sampleSize ?? 64;
+    this.retrainEvery = options.retrainEvery ?? 100;
+    this.minTrainingSize = options.minTrainingSize ?? 32;
+    this.buffer = new RingBuffer(options.bufferSize ?? 512);
+    this.random = mulberry32(options.seed ?? Date.now());
+  }
+
+  score(_key: string, vector: number[]): number {
+    if (this.forest.length === 0) return 0;
+
+    const avgDepth = this.forest.reduce((sum, tree) => sum + pathLength(tree, vector, 0), 0) / this.forest.length;
+    const s = Math.pow(2, -avgDepth / averagePathLength(this.trainedSize));
+
+    // s ~0.5 is normal traffic; map (0.5, 1] onto (0, 1]
+    return Math.max(0, Math.min(1, (s - 0.5) * 2));
+  }
+
+  update(_key: string, vector: number[]): void {
+    this.buffer.push(vector);
+    this.updatesSinceTraining++;
+
+    const due = this.forest.length === 0 || this.updatesSinceTraining >= this.retrainEvery;
+    if (due && this.buffer.size() >= this.minTrainingSize) {
+      this.train();
+    }
+  }
+
+  /**
+   * Rebuild the forest from the buffered vectors
+   */
+  train(): void {
+    const data = this.buffer.values();
+    const size = Math.min(this.sampleSize, data.length);
+    const heightLimit = Math.ceil(Math.log2(Math.max(2, size)));
+
+    this.forest = [];
+    for (let t = 0; t < this.trees; t++) {
+      const sample: number[][] = [];
+      for (let i = 0; i < size; i++) {
+        sample.push(data[Math.floor(this.random() * data.length)]);
+      }
+      this.forest.push(this.buildTree(sample, 0, heightLimit));
+    }
+
+    this.trainedSize = size;
+    this.updatesSinceTraining = 0;
+  }
+
+  private buildTree(points: number[][], depth: number, heightLimit: number): IsolationNode {
+    if (depth >= heightLimit || points.length <= 1) {
+      return { size: points.length };
+    }
+
+    // Only split on dimensions that still vary; remember the constant ones
+    // so a point differing there is isolated immediately
+    const dims = points[0].length;
+    const candidates: number[] = [];
+    const constants: Array<[number, number]> = [];
+    for (let d = 0; d < dims; d++) {
+      if (points.some(p => p[d] !== points[0][d])) {
+        candidates.push(d);
+      } else {
+        constants.push([d, points[0][d]]);
+      }
+    }
+    if (candidates.length === 0) {
+      return { size: points.length, constants };
+    }
+
+    const feature = candidates[Math.floor(this.random() * candidates.length)];
+    const values = points.map(p => p[feature]);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const split = min + this.random() * (max - min);
+
+    return {
+      size: points.length,
+      constants,
+      feature,
+      split,
+      left: this.buildTree(points.filter(p => p[feature] < split), depth + 1, heightLimit),
+      right: this.buildTree(points.filter(p => p[feature] >= split), depth + 1, heightLimit)
+    };
+  }
+}
+
+/**
+ * Fixed-capacity FIFO buffer
+ */
+class RingBuffer<T> {
+  private items: T[] = [];
+  private next: number = 0;
+
+  constructor(private capacity: number) {}
+
+  push(item: T): void {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+    } else {
+      this.items[this.next] = item;
+    }
+    this.next = (this.next + 1) % this.capacity;
+  }
+
+  values(): T[] {
+    return this.items;
+  }
+
+  size(): number {
+    return this.items.length;
+  }
+}
+
+function createStats(dims: number): RunningStats {
+  return { count: 0, mean: new Array(dims).fill(0), m2: new Array(dims).fill(0) };
+}
+
+function welford(stats: RunningStats, vector: number[]): void {
+  stats.count++;
+  vector.forEach((value, i) => {
+    const delta = value - stats.mean[i];
+    stats.mean[i] += delta / stats.count;
+    stats.m2[i] += delta * (value - stats.mean[i]);
+  });
+}
+
+/**
+ * Fetch key and mark it most recently used, evicting the oldest beyond max
+ */
+function touch<T>(map: Map<string, T>, key: string, max: number): T | undefined {
+  const value = map.get(key);
+  if (value !== undefined) {
+    map.delete(key);
+  } else {
+    while (map.size >= max) {
+      map.delete(map.keys().next().value as string);
+    }
+  }
+  return value;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Linear 0-1 ramp between threshold and saturation
+ */
+function ramp(value: number, threshold: number, saturation: number): number {
+  if (value <= threshold) return 0;
+  return Math.min(1, (value - threshold) / (saturation - threshold));
+}
+
+function pathLength(node: IsolationNode, vector: number[], depth: number): number {
+  if (node.constants?.some(([d, value]) => vector[d] !== value)) {
+    return depth + 1;
+  }
+  if (node.feature === undefined || !node.left || !node.right) {
+    return depth + averagePathLength(node.size);
+  }
+  return pathLength(vector[node.feature] < node.split! ? node.left : node.right, vector, depth + 1);
+}
+
+/**
+ * Average unsuccessful BST search path length, c(n)
+ */
+function averagePathLength(n: number): number {
+  if (n <= 1) return 0;
+  if (n === 2) return 1;
+  return 2 * (Math.log(n - 1) + 0.5772156649) - (2 * (n - 1)) / n;
+}
+
+interface RunningStats {
+  count: number;
+  mean: number[];
+  m2: number[];
+}
+
+interface IsolationNode {
+  size: number;
+  constants?: Array<[number, number]>; // dimensions with a single value in this node's sample
+  feature?: number;
+  split?: number;
+  left?: IsolationNode;
+  right?: IsolationNode;
+}
@@ -0,0 +1,145 @@
+/**
+ * Bridge Graph
+ *
+ * Models cross-chain bridges as directed edges with fee, latency and
+ * privacy impact, and finds multi-hop paths from where funds sit to
+ * where they need to go. Bridges are a major linkability point, so
+ * every hop erodes the route's privacy score.
+ */
+
+import { readFileSync } from 'fs';
+
+export interface BridgeEdge {
+  from: string;
+  to: string;
+  bridge: string; // protocol name
+  feeBps: number; // proportional fee, basis points of the amount
+  fixedFee: bigint; // flat fee, payment token base units
+  latency: number; // milliseconds until funds are usable on `to`
+  privacyImpact: number; // 0-1 fraction of privacy lost crossing this bridge
+  successRate: number; // 0-1
+  gasUnits: bigint; // source-chain gas/compute units for the bridge transaction
+}
+
+/**
+ * Serialized bridge edge (JSON config files)
+ */
+export interface BridgeEdgeInput extends Omit<BridgeEdge, 'fixedFee' | 'gasUnits'> {
+  fixedFee: string | number | bigint;
+  gasUnits: string | number | bigint;
+}
+
+export type BridgePath = BridgeEdge[];
+
+const canonical = (
+  a: string,
+  b: string,
+  bridge: string,
+  latency: number,
+  privacyImpact: number,
+  feeBps: number = 0,
+  fixedFee: bigint = 0n
+): BridgeEdge[] => [
+  { from: a, to: b, bridge, feeBps, fixedFee, latency, privacyImpact, successRate: 0.99, gasUnits: 120000n },
+  { from: b, to: a, bridge, feeBps, fixedFee, latency, privacyImpact, successRate: 0.99, gasUnits: 120000n }
+];
+
+export const DEFAULT_BRIDGES: BridgeEdge[] = [
+  ...canonical('ethereum', 'arbitrum', 'arbitrum-canonical', 15 * 60 * 1000, 0.15),
+  ...canonical('ethereum', 'optimism', 'optimism-canonical', 15 * 60 * 1000, 0.15),
+  ...canonical('ethereum', 'polygon', 'polygon-pos', 30 * 60 * 1000, 0.2),
+  ...canonical('ethereum', 'avalanche', 'avalanche-bridge', 20 * 60 * 1000, 0.2, 0, 1000000n),
+  ...canonical('ethereum', 'bsc', 'cctp-relay', 20 * 60 * 1000, 0.25, 10),
+  ...canonical('ethereum', 'solana', 'wormhole', 20 * 60 * 1000, 0.25, 0, 500000n),
+  ...canonical('arbitrum', 'optimism', 'across', 2 * 60 * 1000, 0.2, 5),
+  ...canonical('arbitrum', 'polygon', 'across', 3 * 60 * 1000, 0.2, 5),
+  ...canonical('optimism', 'polygon', 'across', 3 * 60 * 1000, 0.2, 5)
+];
+
+export class BridgeGraph {
+  private edges: Map<string, BridgeEdge[]> = new Map();
+
+  constructor(edges: BridgeEdge[] = DEFAULT_BRIDGES) {
+    for (const edge of edges) {
+      this.addEdge(edge);
+    }
+  }
+
+  /**
+   * Load edges from a JSON file (array of bridge edges)
+   */
+  static fromFile(path: string, includeDefaults: boolean = true): BridgeGraph {
+    const entries = JSON.parse(readFileSync(path, 'utf8')) as BridgeEdgeInput[];
+    if (!Array.isArray(entries)) {
+      throw new Error(`Bridge config ${path} must be an array of bridge edges`);
+    }
+
+    const graph = new BridgeGraph(includeDefaults ? DEFAULT_BRIDGES : []);
+    for (const entry of entries) {
+      graph.addEdge({ ...entry, fixedFee: BigInt(entry.fixedFee), gasUnits: BigInt(entry.gasUnits) });
+    }
+    return graph;
+  }
+
+  /**
+   * Add a directed bridge edge
+   */
+  addEdge(edge: BridgeEdge): void {
+    if (edge.from === edge.to) {
+      throw new Error(`Bridge ${edge.bridge}: source and destination must differ`);
+    }
+    if (edge.privacyImpact < 0 || edge.privacyImpact > 1 || edge.successRate < 0 || edge.successRate > 1) {
+      throw new Error(`Bridge ${edge.bridge}: privacyImpact and successRate must be within 0-1`);
+    }
+
+    const outgoing = this.edges.get(edge.from) || [];
+    outgoing.push(edge);
+    this.edges.set(edge.from, outgoing);
+  }
+
+  /**
+   * Get edges leaving chain
+   */
+  edgesFrom(chain: string): BridgeEdge[] {
+    return this.edges.get(chain) || [];
+  }
+
+  /**
+   * Enumerate simple paths from source to target (depth-first, bounded)
+   *
+   * `allowed` restricts intermediate and final chains (e.g. to the
+   * registered chain set).
+   */
+  findPaths(
+    source: string,
+    target: string,
+    maxHops: number = 2,
+    allowed?: (chain: string) => boolean
+  ): BridgePath[] {
+    if (source === target) return [[]];
+
+    const paths: BridgePath[] = [];
+    const visited = new Set<string>([source]);
+
+    const visit = (chain: string, path: BridgeEdge[]) => {
+      if (path.length >= maxHops) return;
+
+      for (const edge of this.edgesFrom(chain)) {
+        if (visited.has(edge.to) || (allowed && !allowed(edge.to))) continue;
+
+        const next = [...path, edge];
+        if (edge.to === target) {
+          paths.push(next);
+          continue;
+        }
+
+        visited.add(edge.to);
+        visit(edge.to, next);
+        visited.delete(edge.to);
+      }
+    };
+
+    visit(source, []);
+    return paths;
+  }
+}
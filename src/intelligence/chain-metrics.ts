@@ -0,0 +1,352 @@
+/**
+ * Chain Metrics Providers
+ *
+ * Supplies live network conditions (gas price, fee history, block time)
+ * to the payment router, either from JSON-RPC endpoints or from a
+ * fixed in-memory / file snapshot for tests and offline use
+ */
+
+import { readFileSync } from 'fs';
+import { ChainConfig, ChainRegistry } from './chain-registry';
+
+export interface ChainMetrics {
+  avgGasPrice: bigint; // wei per gas (EVM) or micro-lamports per compute unit (SVM)
+  avgConfirmationBlocks: number;
+  networkHealth: number; // 0-1
+  lastUpdated: number; // unix ms
+  baseFee?: bigint; // EIP-1559 base fee, wei
+  priorityFee?: bigint; // median priority fee / prioritization fee
+  blockTime?: number; // observed average, milliseconds
+}
+
+export type ChainMetricsListener = (chain: string, metrics: ChainMetrics) => void;
+
+export interface ChainMetricsProvider {
+  /**
+   * Chains this provider can report on
+   */
+  supportedChains(): string[];
+
+  /**
+   * Fetch current metrics for a chain (null if unavailable)
+   */
+  fetchMetrics(chain: string): Promise<ChainMetrics | null>;
+
+  /**
+   * Push updates to a listener; returns an unsubscribe function
+   */
+  subscribe?(listener: ChainMetricsListener): () => void;
+}
+
+export interface JsonRpcProviderOptions {
+  endpoints: Record<string, string>;
+  timeoutMs?: number;
+  feeHistoryBlocks?: number;
+  blockTimeSampleSize?: number;
+  registry?: ChainRegistry; // chain family and confirmations
+}
+
+/**
+ * JSON-RPC backed metrics provider
+ *
+ * EVM chains: eth_gasPrice, eth_feeHistory and block timestamps.
+ * SVM chains: getRecentPrioritizationFees and getRecentPerformanceSamples.
+ */
+export class JsonRpcMetricsProvider implements ChainMetricsProvider {
+  private endpoints: Map<string, string>;
+  private timeoutMs: number;
+  private feeHistoryBlocks: number;
+  private blockTimeSampleSize: number;
+  private registry: ChainRegistry;
+  private requestId: number = 0;
+
+  constructor(options: JsonRpcProviderOptions) {
+    this.endpoints = new Map(Object.entries(options.endpoints));
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.feeHistoryBlocks = options.feeHistoryBlocks ?? 10;
+    this.blockTimeSampleSize = options.blockTimeSampleSize ?? 20;
+    this.registry = options.registry || ChainRegistry.fromEnv();
+  }
+
+  /**
+   * Build provider from `<CHAIN>_RPC_URL` environment variables
+   */
+  static fromEnv(
+    env: Record<string, string | undefined> = process.env,
+    options: Omit<JsonRpcProviderOptions, 'endpoints'> = {}
+  ): JsonRpcMetricsProvider {
+    const endpoints: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(env)) {
+      const match = key.match(/^([A-Z0-9_]+)_RPC_URL$/);
+      if (match && value) {
+        endpoints[match[1].toLowerCase()] = value;
+      }
+    }
+
+    return new JsonRpcMetricsProvider({ ...options, endpoints });
+  }
+
+  supportedChains(): string[] {
+    return Array.from(this.endpoints.keys()).filter(chain => this.registry.has(chain));
+  }
+
+  async fetchMetrics(chain: string): Promise<ChainMetrics | null> {
+    const url = this.endpoints.get(chain);
+    const config = this.registry.get(chain);
+    if (!url || !config) return null;
+
+    try {
+      return config.family === 'svm'
+        ? await this.fetchSvmMetrics(url, config)
+        : await this.fetchEvmMetrics(url, config.confirmations);
+    } catch {
+      // Unreachable endpoint: keep the last known metrics
+      return null;
+    }
+  }
+
+  /**
+   * Fetch EVM gas price, fee history and block time
+   */
+  private async fetchEvmMetrics(url: string, confirmations: number): Promise<ChainMetrics> {
+    const gasPrice = BigInt(await this.call<string>(url, 'eth_gasPrice', []));
+
+    let baseFee: bigint | undefined;
+    let priorityFee: bigint | undefined;
+    let congestion = 0.5;
+
+    try {
+      const history = await this.call<FeeHistoryResult>(url, 'eth_feeHistory', [
+        this.toHex(this.feeHistoryBlocks),
+        'latest',
+        [50]
+      ]);
+
+      // Last entry is the base fee for the next (pending) block
+      const baseFees = history.baseFeePerGas.map(fee => BigInt(fee));
+      baseFee = baseFees[baseFees.length - 1];
+
+      const rewards = (history.reward || [])
+        .map(r => BigInt(r[0]))
+        .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+      if (rewards.length > 0) {
+        priorityFee = rewards[Math.floor(rewards.length / 2)];
+      }
+
+      if (history.gasUsedRatio.length > 0) {
+        congestion = history.gasUsedRatio.reduce((a, b) => a + b, 0) / history.gasUsedRatio.length;
+      }
+    } catch {
+      // Pre-London chains have no fee history; gas price alone is enough
+    }
+
+    const blockTime = await this.fetchEvmBlockTime(url);
+
+    return {
+      avgGasPrice: gasPrice,
+      avgConfirmationBlocks: confirmations,
+      networkHealth: this.congestionToHealth(congestion),
+      lastUpdated: Date.now(),
+      baseFee,
+      priorityFee,
+      blockTime
+    };
+  }
+
+  /**
+   * Average block time over the last `blockTimeSampleSize` blocks
+   */
+  private async fetchEvmBlockTime(url: string): Promise<number | undefined> {
+    const latest = await this.call<BlockResult | null>(url, 'eth_getBlockByNumber', ['latest', false]);
+    if (!latest) return undefined;
+
+    const latestNumber = Number(BigInt(latest.number));
+    const earlierNumber = Math.max(0, latestNumber - this.blockTimeSampleSize);
+    if (earlierNumber === latestNumber) return undefined;
+
+    const earlier = await this.call<BlockResult | null>(url, 'eth_getBlockByNumber', [
+      this.toHex(earlierNumber),
+      false
+    ]);
+    if (!earlier) return undefined;
+
+    const elapsed = Number(BigInt(latest.timestamp) - BigInt(earlier.timestamp));
+    return (elapsed * 1000) / (latestNumber - earlierNumber);
+  }
+
+  /**
+   * Fetch Solana prioritization fees and slot time
+   */
+  private async fetchSvmMetrics(url: string, config: ChainConfig): Promise<ChainMetrics> {
+    const fees = await this.call<PrioritizationFee[]>(url, 'getRecentPrioritizationFees', []);
+    const values = fees.map(f => f.prioritizationFee).sort((a, b) => a - b);
+    const medianFee = values.length > 0 ? values[Math.floor(values.length / 2)] : 0;
+
+    let blockTime: number | undefined;
+    let health = 0.95;
+
+    try {
+      const samples = await this.call<PerformanceSample[]>(url, 'getRecentPerformanceSamples', [5]);
+      const slots = samples.reduce((sum, s) => sum + s.numSlots, 0);
+      const seconds = samples.reduce((sum, s) => sum + s.samplePeriodSecs, 0);
+      if (slots > 0) {
+        blockTime = (seconds * 1000) / slots;
+        // Slots slower than the registry's nominal time indicate degraded health
+        health = Math.max(0, Math.min(1, config.blockTime / blockTime));
+      }
+    } catch {
+      // Performance samples are optional
+    }
+
+    return {
+      avgGasPrice: BigInt(Math.round(medianFee)),
+      avgConfirmationBlocks: config.confirmations,
+      networkHealth: health,
+      lastUpdated: Date.now(),
+      priorityFee: BigInt(Math.round(medianFee)),
+      blockTime
+    };
+  }
+
+  /**
+   * Perform a JSON-RPC call with timeout
+   */
+  private async call<T>(url: string, method: string, params: unknown[]): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`RPC ${method} failed with HTTP ${response.status}`);
+      }
+
+      const body = (await response.json()) as JsonRpcResponse<T>;
+      if (body.error) {
+        throw new Error(`RPC ${method} failed: ${body.error.message}`);
+      }
+
+      return body.result as T;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Map block fullness to a health score (full blocks = congested)
+   */
+  private congestionToHealth(congestion: number): number {
+    return Math.max(0, Math.min(1, 1 - Math.max(0, congestion - 0.5)));
+  }
+
+  /**
+   * Convert number to hex quantity
+   */
+  private toHex(value: number): string {
+    return '0x' + value.toString(16);
+  }
+}
+
+/**
+ * In-memory metrics provider (tests, fixtures, offline snapshots)
+ */
+export class InMemoryMetricsProvider implements ChainMetricsProvider {
+  private metrics: Map<string, ChainMetrics> = new Map();
+  private listeners: Set<ChainMetricsListener> = new Set();
+
+  constructor(initial: Record<string, ChainMetrics> = {}) {
+    for (const [chain, metrics] of Object.entries(initial)) {
+      this.metrics.set(chain, metrics);
+    }
+  }
+
+  /**
+   * Load a JSON snapshot: `{ "<chain>": { "avgGasPrice": "20000000000", ... } }`
+   */
+  static fromFile(path: string): InMemoryMetricsProvider {
+    const raw = JSON.parse(readFileSync(path, 'utf8')) as Record<string, SerializedChainMetrics>;
+    const initial: Record<string, ChainMetrics> = {};
+
+    for (const [chain, entry] of Object.entries(raw)) {
+      initial[chain] = {
+        avgGasPrice: BigInt(entry.avgGasPrice),
+        avgConfirmationBlocks: entry.avgConfirmationBlocks,
+        networkHealth: entry.networkHealth,
+        lastUpdated: entry.lastUpdated ?? Date.now(),
+        baseFee: entry.baseFee !== undefined ? BigInt(entry.baseFee) : undefined,
+        priorityFee: entry.priorityFee !== undefined ? BigInt(entry.priorityFee) : undefined,
+        blockTime: entry.blockTime
+      };
+    }
+
+    return new InMemoryMetricsProvider(initial);
+  }
+
+  /**
+   * Set metrics for chain and notify subscribers
+   */
+  setMetrics(chain: string, metrics: ChainMetrics): void {
+    this.metrics.set(chain, metrics);
+    for (const listener of this.listeners) {
+      listener(chain, metrics);
+    }
+  }
+
+  supportedChains(): string[] {
+    return Array.from(this.metrics.keys());
+  }
+
+  async fetchMetrics(chain: string): Promise<ChainMetrics | null> {
+    return this.metrics.get(chain) || null;
+  }
+
+  subscribe(listener: ChainMetricsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+interface SerializedChainMetrics {
+  avgGasPrice: string | number;
+  avgConfirmationBlocks: number;
+  networkHealth: number;
+  lastUpdated?: number;
+  baseFee?: string | number;
+  priorityFee?: string | number;
+  blockTime?: number;
+}
+
+interface JsonRpcResponse<T> {
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+interface FeeHistoryResult {
+  baseFeePerGas: string[];
+  gasUsedRatio: number[];
+  reward?: string[][];
+}
+
+interface BlockResult {
+  number: string;
+  timestamp: string;
+}
+
+interface PrioritizationFee {
+  slot: number;
+  prioritizationFee: number;
+}
+
+interface PerformanceSample {
+  numSlots: number;
+  samplePeriodSecs: number;
+}
@@ -0,0 +1,202 @@
+/**
+ * Chain Registry
+ *
+ * Single source of chain facts (family, gas, block time, privacy and
+ * reliability priors) shared by routing, metrics and learning components.
+ * New chains are registered through config rather than code.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+
+export type ChainFamily = 'evm' | 'svm';
+
+export interface ChainConfig {
+  id: string;
+  family: ChainFamily;
+  baseGas: bigint; // gas units (EVM) or compute units (SVM) for a transfer
+  blockTime: number; // milliseconds
+  confirmations: number;
+  privacyScore: number; // base privacy score, 0-1
+  successRate: number; // default success rate prior, 0-1
+  nativeToken: string; // symbol used for USD pricing
+  decimals: number; // native token decimals
+  defaultGasPrice?: bigint; // seed gas price until live metrics arrive (wei or micro-lamports/CU)
+  settlementChain?: string; // L2s: chain that data is posted to
+  l1DataGas?: number; // L2s: settlement-chain gas paid per transfer for data availability
+  signatureFee?: bigint; // SVM: base fee per signature, lamports
+}
+
+/**
+ * Serialized chain entry (JSON config files)
+ */
+export interface ChainConfigInput
+  extends Omit<ChainConfig, 'baseGas' | 'defaultGasPrice' | 'signatureFee'> {
+  baseGas: string | number | bigint;
+  defaultGasPrice?: string | number | bigint;
+  signatureFee?: string | number | bigint;
+}
+
+export const DEFAULT_CHAINS: ChainConfig[] = [
+  {
+    id: 'ethereum', family: 'evm', baseGas: 21000n, blockTime: 12000, confirmations: 12,
+    privacyScore: 0.7, successRate: 0.95, nativeToken: 'ETH', decimals: 18,
+    defaultGasPrice: 20_000_000_000n // 20 gwei
+  },
+  {
+    id: 'polygon', family: 'evm', baseGas: 21000n, blockTime: 2000, confirmations: 12,
+    privacyScore: 0.6, successRate: 0.98, nativeToken: 'POL', decimals: 18,
+    defaultGasPrice: 30_000_000_000n
+  },
+  {
+    id: 'bsc', family: 'evm', baseGas: 21000n, blockTime: 3000, confirmations: 12,
+    privacyScore: 0.5, successRate: 0.97, nativeToken: 'BNB', decimals: 18,
+    defaultGasPrice: 3_000_000_000n
+  },
+  {
+    id: 'arbitrum', family: 'evm', baseGas: 21000n, blockTime: 1000, confirmations: 12,
+    privacyScore: 0.7, successRate: 0.96, nativeToken: 'ETH', decimals: 18,
+    defaultGasPrice: 10_000_000n, settlementChain: 'ethereum', l1DataGas: 1600
+  },
+  {
+    id: 'optimism', family: 'evm', baseGas: 21000n, blockTime: 2000, confirmations: 12,
+    privacyScore: 0.7, successRate: 0.96, nativeToken: 'ETH', decimals: 18,
+    defaultGasPrice: 1_000_000n, settlementChain: 'ethereum', l1DataGas: 1600
+  },
+  {
+    id: 'avalanche', family: 'evm', baseGas: 21000n, blockTime: 2000, confirmations: 12,
+    privacyScore: 0.6, successRate: 0.97, nativeToken: 'AVAX', decimals: 18,
+    defaultGasPrice: 25_000_000_000n
+  },
+  {
+    id: 'solana', family: 'svm', baseGas: 5000n, blockTime: 400, confirmations: 12,
+    privacyScore: 0.8, successRate: 0.99, nativeToken: 'SOL', decimals: 9,
+    defaultGasPrice: 1000n, signatureFee: 5000n
+  }
+];
+
+export class ChainRegistry {
+  private chains: Map<string, ChainConfig> = new Map();
+
+  constructor(chains: ChainConfig[] = DEFAULT_CHAINS) {
+    for (const chain of chains) {
+      this.register(chain);
+    }
+  }
+
+  /**
+   * Build registry from defaults, `CHAIN_REGISTRY_PATH` and `SUPPORTED_CHAINS`
+   *
+   * Entries in the config file override or extend the defaults (a
+   * configured file that does not exist is an error); when
+   * `SUPPORTED_CHAINS` is set only the listed chains stay registered.
+   */
+  static fromEnv(env: Record<string, string | undefined> = process.env): ChainRegistry {
+    const registry = new ChainRegistry();
+
+    if (env.CHAIN_REGISTRY_PATH) {
+      if (!existsSync(env.CHAIN_REGISTRY_PATH)) {
+        throw new Error(
+          `CHAIN_REGISTRY_PATH points to ${env.CHAIN_REGISTRY_PATH}, which does not exist; ` +
+            'unset it to use the built-in chains'
+        );
+      }
+      registry.load(env.CHAIN_REGISTRY_PATH);
+    }
+
+    if (env.SUPPORTED_CHAINS) {
+      const supported = env.SUPPORTED_CHAINS.split(',').map(c => c.trim()).filter(Boolean);
+      registry.restrictTo(supported);
+    }
+
+    return registry;
+  }
+
+  /**
+   * Register chains from a JSON file (array of chain entries)
+   */
+  load(path: string): void {
+    const entries = JSON.parse(readFileSync(path, 'utf8')) as ChainConfigInput[];
+    if (!Array.isArray(entries)) {
+      throw new Error(`Chain registry config ${path} must be an array of chain entries`);
+    }
+
+    for (const entry of entries) {
+      this.register(entry);
+    }
+  }
+
+  /**
+   * Register (or replace) a chain
+   */
+  register(input: ChainConfig | ChainConfigInput): void {
+    const config: ChainConfig = {
+      ...input,
+      baseGas: BigInt(input.baseGas),
+      defaultGasPrice: input.defaultGasPrice !== undefined ? BigInt(input.defaultGasPrice) : undefined,
+      signatureFee: input.signatureFee !== undefined ? BigInt(input.signatureFee) : undefined
+    };
+    this.validate(config);
+    this.chains.set(config.id, config);
+  }
+
+  /**
+   * Keep only the listed chains (unknown ids are a config error)
+   */
+  restrictTo(ids: string[]): void {
+    const unknown = ids.filter(id => !this.chains.has(id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown chains in SUPPORTED_CHAINS: ${unknown.join(', ')}`);
+    }
+
+    const keep = new Set(ids);
+    for (const id of Array.from(this.chains.keys())) {
+      if (!keep.has(id)) {
+        this.chains.delete(id);
+      }
+    }
+  }
+
+  get(id: string): ChainConfig | undefined {
+    return this.chains.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.chains.has(id);
+  }
+
+  ids(): string[] {
+    return Array.from(this.chains.keys());
+  }
+
+  list(): ChainConfig[] {
+    return Array.from(this.chains.values());
+  }
+
+  get size(): number {
+    return this.chains.size;
+  }
+
+  /**
+   * Validate chain entry ranges
+   */
+  private validate(config: ChainConfig): void {
+    if (!config.id) {
+      throw new Error('Chain entry is missing an id');
+    }
+    if (config.family !== 'evm' && config.family !== 'svm') {
+      throw new Error(`Chain ${config.id}: family must be "evm" or "svm"`);
+    }
+    if (config.baseGas <= 0n || config.blockTime <= 0 || config.confirmations <= 0) {
+      throw new Error(`Chain ${config.id}: baseGas, blockTime and confirmations must be positive`);
+    }
+    if (!config.nativeToken || !(config.decimals >= 0)) {
+      throw new Error(`Chain ${config.id}: nativeToken and decimals are required`);
+    }
+    if (
+      config.privacyScore < 0 || config.privacyScore > 1 ||
+      config.successRate < 0 || config.successRate > 1
+    ) {
+      throw new Error(`Chain ${config.id}: privacyScore and successRate must be within 0-1`);
+    }
+  }
+}
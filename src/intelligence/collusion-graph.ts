@@ -0,0 +1,326 @@
+/**
+ * Collusion Graph
+ *
+ * Cross-pseudonym correlation for sybil and collusion rings. Pseudonyms
+ * (hashed) are linked when they pay the same stealth address, or when a
+ * large share of their payments pair up with near-identical amounts or
+ * in lockstep. Linked pseudonyms form clusters whose size and cohesion
+ * give a cluster risk score.
+ *
+ * Price points, addresses and time slots shared by many pseudonyms are
+ * public (a popular API price, a merchant address, busy traffic) and do
+ * not create links.
+ */
+
+export interface CollusionOptions {
+  amountTolerance?: number; // relative difference counted as near-identical
+  amountWindow?: number; // milliseconds between near-identical payments
+  syncWindow?: number; // milliseconds counted as synchronized
+  minCoOccurrences?: number; // paired payments needed before amount/timing links count
+  linkThreshold?: number; // share of the quieter pseudonym's payments that must pair up, 0-1
+  maxFanout?: number; // more distinct pseudonyms than this = public signal
+  minClusterSize?: number; // smaller clusters carry no risk
+  maxRecent?: number; // payments kept for pairwise comparison
+  maxNodes?: number; // pseudonyms kept (least recently active evicted)
+  maxLinksPerNode?: number; // weakest links dropped beyond this
+}
+
+export interface CollusionPayment {
+  key: string; // hashed pseudonym
+  addressKey?: string; // hashed stealth address
+  amount: bigint;
+  timestamp: bigint;
+}
+
+export interface ClusterInfo {
+  id: string; // smallest member key (stable while the cluster holds)
+  size: number;
+  risk: number; // 0-1
+  members: string[]; // hashed pseudonyms
+}
+
+export class CollusionGraph {
+  private amountTolerance: number;
+  private amountWindow: number;
+  private syncWindow: number;
+  private minCoOccurrences: number;
+  private linkThreshold: number;
+  private maxFanout: number;
+  private minClusterSize: number;
+  private maxRecent: number;
+  private maxNodes: number;
+  private maxLinksPerNode: number;
+  private recent: RecentPayment[] = [];
+  private addresses: Map<string, Set<string>> = new Map();
+  private nodes: Map<string, GraphNode> = new Map();
+
+  constructor(options: CollusionOptions = {}) {
+    this.amountTolerance = options.amountTolerance ?? 0.005;
+    this.amountWindow = options.amountWindow ?? 10 * 60 * 1000;
+    this.syncWindow = options.syncWindow ?? 2000;
+    this.minCoOccurrences = options.minCoOccurrences ?? 3;
+    this.linkThreshold = options.linkThreshold ?? 0.6;
+    this.maxFanout = options.maxFanout ?? 10;
+    this.minClusterSize = options.minClusterSize ?? 3;
+    this.maxRecent = options.maxRecent ?? 5000;
+    this.maxNodes = options.maxNodes ?? 50000;
+    this.maxLinksPerNode = options.maxLinksPerNode ?? 200;
+  }
+
+  /**
+   * Record payment and update its links
+   */
+  record(payment: CollusionPayment): void {
+    const pairs = this.findPairs(payment);
+
+    const node = this.touchNode(payment.key);
+    node.count++;
+    for (const [other, pair] of pairs) {
+      const otherNode = this.nodes.get(other);
+      if (!otherNode) continue;
+      this.addPair(node, other, pair);
+      this.addPair(otherNode, payment.key, pair);
+    }
+
+    if (payment.addressKey) {
+      const payers = this.addresses.get(payment.addressKey) || new Set<string>();
+      this.addresses.delete(payment.addressKey);
+      payers.add(payment.key);
+      this.addresses.set(payment.addressKey, payers);
+      while (this.addresses.size > this.maxNodes) {
+        this.addresses.delete(this.addresses.keys().next().value as string);
+      }
+    }
+
+    this.recent.push({
+      key: payment.key,
+      amount: Number(payment.amount),
+      time: Number(payment.timestamp)
+    });
+    if (this.recent.length > this.maxRecent) {
+      this.recent.shift();
+    }
+  }
+
+  /**
+   * Cluster the payment's pseudonym would belong to (payment counted as if recorded)
+   */
+  assess(payment: CollusionPayment): ClusterInfo | undefined {
+    const pending: Pending = { origin: payment.key, pairs: this.findPairs(payment) };
+    const cluster = this.component(payment.key, pending);
+    if (cluster.size < this.minClusterSize) return undefined;
+
+    return this.describe(cluster, pending);
+  }
+
+  /**
+   * All clusters at or above the minimum size, riskiest first
+   */
+  clusters(): ClusterInfo[] {
+    const seen = new Set<string>();
+    const result: ClusterInfo[] = [];
+
+    for (const key of this.nodes.keys()) {
+      if (seen.has(key)) continue;
+
+      const cluster = this.component(key);
+      cluster.forEach(member => seen.add(member));
+      if (cluster.size >= this.minClusterSize) {
+        result.push(this.describe(cluster));
+      }
+    }
+
+    return result.sort((a, b) => b.risk - a.risk);
+  }
+
+  /**
+   * Pseudonyms this payment pairs up with, and how
+   */
+  private findPairs(payment: CollusionPayment): Map<string, LinkState> {
+    const amount = Number(payment.amount);
+    const time = Number(payment.timestamp);
+    const amountMatches = new Set<string>();
+    const syncMatches = new Set<string>();
+
+    for (const other of this.recent) {
+      if (other.key === payment.key) continue;
+
+      const gap = Math.abs(other.time - time);
+      if (gap <= this.syncWindow) {
+        syncMatches.add(other.key);
+      }
+      if (gap <= this.amountWindow && this.nearlyEqual(amount, other.amount)) {
+        amountMatches.add(other.key);
+      }
+    }
+
+    const pairs = new Map<string, LinkState>();
+    const pair = (key: string) => {
+      const state = pairs.get(key) || { amount: 0, sync: 0, addresses: new Set<string>() };
+      pairs.set(key, state);
+      return state;
+    };
+
+    // Too many matches means a public signal, not coordination
+    if (amountMatches.size <= this.maxFanout) {
+      amountMatches.forEach(key => pair(key).amount++);
+    }
+    if (syncMatches.size <= this.maxFanout) {
+      syncMatches.forEach(key => pair(key).sync++);
+    }
+    if (payment.addressKey) {
+      for (const key of this.addresses.get(payment.addressKey) || []) {
+        if (key !== payment.key) pair(key).addresses.add(payment.addressKey);
+      }
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Link strength between two pseudonyms, 0-1
+   */
+  private strength(a: string, b: string, pending?: Pending): number {
+    const link = this.nodes.get(a)?.links.get(b);
+    const extra = pending && (a === pending.origin ? pending.pairs.get(b) : b === pending.origin ? pending.pairs.get(a) : undefined);
+
+    // A stealth address paid by a small group links it outright
+    const addresses = new Set([...(link?.addresses || []), ...(extra?.addresses || [])]);
+    for (const address of addresses) {
+      const payers = this.addresses.get(address);
+      const size = (payers?.size ?? 0) + (pending && payers && !payers.has(pending.origin) ? 1 : 0);
+      if (size <= this.maxFanout) return 1;
+    }
+
+    const pairs = Math.max(
+      (link?.amount ?? 0) + (extra?.amount ?? 0),
+      (link?.sync ?? 0) + (extra?.sync ?? 0)
+    );
+    if (pairs < this.minCoOccurrences) return 0;
+
+    const countOf = (key: string) => (this.nodes.get(key)?.count ?? 0) + (pending?.origin === key ? 1 : 0);
+    const quieter = Math.min(countOf(a), countOf(b));
+    return quieter > 0 ? Math.min(1, pairs / quieter) : 0;
+  }
+
+  /**
+   * Connected component of strong links around key
+   */
+  private component(key: string, pending?: Pending): Set<string> {
+    const visited = new Set<string>([key]);
+    const queue = [key];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const candidates = new Set<string>(this.nodes.get(current)?.links.keys() || []);
+      if (pending && current === pending.origin) {
+        pending.pairs.forEach((_, other) => candidates.add(other));
+      }
+
+      for (const neighbor of candidates) {
+        if (!visited.has(neighbor) && this.strength(current, neighbor, pending) >= this.linkThreshold) {
+          visited.add(neighbor);
+          queue.push(neighbor);
+        }
+      }
+    }
+
+    return visited;
+  }
+
+  /**
+   * Cluster risk grows with size, scaled by how tightly members are linked
+   */
+  private describe(cluster: Set<string>, pending?: Pending): ClusterInfo {
+    const members = [...cluster].sort();
+    let total = 0;
+    let links = 0;
+
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const strength = this.strength(members[i], members[j], pending);
+        if (strength > 0) {
+          total += strength;
+          links++;
+        }
+      }
+    }
+
+    const cohesion = links > 0 ? total / links : 0;
+    const sizeFactor = 1 - Math.exp(-(members.length - 1) / 4);
+
+    return {
+      id: members[0],
+      size: members.length,
+      risk: Math.min(1, sizeFactor * (0.5 + 0.5 * cohesion)),
+      members
+    };
+  }
+
+  private nearlyEqual(a: number, b: number): boolean {
+    const scale = Math.max(Math.abs(a), Math.abs(b));
+    return scale === 0 || Math.abs(a - b) / scale <= this.amountTolerance;
+  }
+
+  private addPair(node: GraphNode, other: string, pair: LinkState): void {
+    const link = node.links.get(other) || { amount: 0, sync: 0, addresses: new Set<string>() };
+    link.amount += pair.amount;
+    link.sync += pair.sync;
+    pair.addresses.forEach(address => link.addresses.add(address));
+    node.links.set(other, link);
+
+    if (node.links.size > this.maxLinksPerNode) {
+      let weakest: string | undefined;
+      let weakestPairs = Infinity;
+      for (const [key, state] of node.links) {
+        const pairs = state.addresses.size > 0 ? Infinity : state.amount + state.sync;
+        if (pairs < weakestPairs) {
+          weakest = key;
+          weakestPairs = pairs;
+        }
+      }
+      if (weakest !== undefined) node.links.delete(weakest);
+    }
+  }
+
+  /**
+   * Fetch node and mark it most recently active, evicting the oldest beyond maxNodes
+   */
+  private touchNode(key: string): GraphNode {
+    const node = this.nodes.get(key) || { count: 0, links: new Map<string, LinkState>() };
+    this.nodes.delete(key);
+    this.nodes.set(key, node);
+
+    while (this.nodes.size > this.maxNodes) {
+      const oldest = this.nodes.keys().next().value as string;
+      for (const neighbor of this.nodes.get(oldest)!.links.keys()) {
+        this.nodes.get(neighbor)?.links.delete(oldest);
+      }
+      this.nodes.delete(oldest);
+    }
+
+    return node;
+  }
+}
+
+interface RecentPayment {
+  key: string;
+  amount: number;
+  time: number;
+}
+
+interface LinkState {
+  amount: number; // near-identical payment pairs
+  sync: number; // synchronized payment pairs
+  addresses: Set<string>; // stealth addresses both paid
+}
+
+interface GraphNode {
+  count: number; // payments recorded
+  links: Map<string, LinkState>;
+}
+
+interface Pending {
+  origin: string; // pseudonym of the payment being assessed
+  pairs: Map<string, LinkState>;
+}
@@ -0,0 +1,162 @@
+/**
+ * Fee Model
+ *
+ * Turns gas units into real transaction cost: EIP-1559 base and priority
+ * fees, L2 data availability fees and Solana compute-unit pricing, in
+ * native token units and (through a pluggable price source) in USD
+ */
+
+import { ChainMetrics } from './chain-metrics';
+import { ChainRegistry } from './chain-registry';
+
+export interface FeeEstimate {
+  chain: string;
+  gasUnits: bigint; // gas (EVM) or compute units (SVM)
+  baseFee: bigint; // per gas unit: wei (EVM); SVM signature fee in lamports
+  priorityFee: bigint; // per gas unit: wei (EVM) or micro-lamports per CU (SVM)
+  l1DataFee: bigint; // L2 data availability fee (fixed plus per posted byte), native smallest unit
+  nativeCost: bigint; // total, native smallest unit (wei / lamports)
+  nativeToken: string;
+  decimals: number;
+  usdCost: number | null; // null when no price is available
+}
+
+export interface PriceSource {
+  /**
+   * USD price of one whole native token (null if unknown)
+   */
+  getUsdPrice(token: string): Promise<number | null>;
+}
+
+/**
+ * Fixed price table (tests, offline estimates)
+ */
+export class StaticPriceSource implements PriceSource {
+  private prices: Map<string, number>;
+
+  constructor(prices: Record<string, number>) {
+    this.prices = new Map(Object.entries(prices).map(([token, price]) => [token.toUpperCase(), price]));
+  }
+
+  async getUsdPrice(token: string): Promise<number | null> {
+    return this.prices.get(token.toUpperCase()) ?? null;
+  }
+}
+
+const CALLDATA_GAS_PER_BYTE = 16n;
+
+export type MetricsLookup = (chain: string) => ChainMetrics | undefined;
+
+export class FeeModel {
+  private registry: ChainRegistry;
+  private priceSource?: PriceSource;
+
+  constructor(registry: ChainRegistry, priceSource?: PriceSource) {
+    this.registry = registry;
+    this.priceSource = priceSource;
+  }
+
+  /**
+   * Estimate the cost of spending `gasUnits` on chain
+   *
+   * `dataBytes` is extra data posted with the transaction (its calldata gas
+   * is already part of `gasUnits`); on rollups it is also published to the
+   * settlement chain and raises the L1 data fee.
+   */
+  async estimate(
+    chain: string,
+    gasUnits: bigint,
+    getMetrics: MetricsLookup,
+    dataBytes: number = 0
+  ): Promise<FeeEstimate> {
+    const config = this.registry.get(chain);
+    if (!config) {
+      throw new Error(`Cannot estimate fees for unregistered chain: ${chain}`);
+    }
+
+    const metrics = getMetrics(chain);
+    let baseFee: bigint;
+    let priorityFee: bigint;
+    let l1DataFee = 0n;
+    let nativeCost: bigint;
+
+    if (config.family === 'svm') {
+      // Signature fee plus compute units priced in micro-lamports
+      baseFee = config.signatureFee ?? 5000n;
+      priorityFee = metrics?.priorityFee ?? metrics?.avgGasPrice ?? config.defaultGasPrice ?? 0n;
+      nativeCost = baseFee + (gasUnits * priorityFee) / 1_000_000n;
+    } else {
+      // EIP-1559 when fee history is known, legacy gas price otherwise
+      if (metrics?.baseFee !== undefined) {
+        baseFee = metrics.baseFee;
+        priorityFee = metrics.priorityFee ?? 0n;
+      } else {
+        baseFee = metrics?.avgGasPrice ?? config.defaultGasPrice ?? 0n;
+        priorityFee = 0n;
+      }
+
+      if (config.settlementChain) {
+        if (!this.registry.has(config.settlementChain)) {
+          throw new Error(`Chain ${chain} settles on unregistered chain: ${config.settlementChain}`);
+        }
+        const l1Gas = BigInt(config.l1DataGas ?? 0) + this.calldataGas(dataBytes);
+        l1DataFee = l1Gas * this.gasPrice(config.settlementChain, getMetrics);
+      }
+
+      nativeCost = gasUnits * (baseFee + priorityFee) + l1DataFee;
+    }
+
+    return {
+      chain,
+      gasUnits,
+      baseFee,
+      priorityFee,
+      l1DataFee,
+      nativeCost,
+      nativeToken: config.nativeToken,
+      decimals: config.decimals,
+      usdCost: await this.toUsd(nativeCost, config.nativeToken, config.decimals)
+    };
+  }
+
+  /**
+   * Gas (EVM) or compute units (SVM) for posting `bytes` of transaction data
+   *
+   * EVM calldata costs 16 gas per byte; SVM transaction bytes are covered
+   * by the signature fee.
+   */
+  dataUnits(chain: string, bytes: number): bigint {
+    const config = this.registry.get(chain);
+    if (!config) {
+      throw new Error(`Cannot estimate fees for unregistered chain: ${chain}`);
+    }
+    return config.family === 'svm' ? 0n : this.calldataGas(bytes);
+  }
+
+  /**
+   * Convert native smallest units to USD
+   */
+  async toUsd(amount: bigint, token: string, decimals: number): Promise<number | null> {
+    if (!this.priceSource) return null;
+
+    const price = await this.priceSource.getUsdPrice(token);
+    if (price === null) return null;
+
+    return (Number(amount) / Math.pow(10, decimals)) * price;
+  }
+
+  private calldataGas(bytes: number): bigint {
+    return BigInt(Math.ceil(bytes)) * CALLDATA_GAS_PER_BYTE;
+  }
+
+  /**
+   * Effective gas price on an EVM chain (base + priority, or legacy price)
+   */
+  private gasPrice(chain: string, getMetrics: MetricsLookup): bigint {
+    const metrics = getMetrics(chain);
+    if (metrics?.baseFee !== undefined) {
+      return metrics.baseFee + (metrics.priorityFee ?? 0n);
+    }
+    return metrics?.avgGasPrice ?? this.registry.get(chain)?.defaultGasPrice ?? 0n;
+  }
+}
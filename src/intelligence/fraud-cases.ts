@@ -0,0 +1,193 @@
+/**
+ * Fraud Case Review
+ *
+ * Analyst workflow on top of FraudDetector: open a case from an
+ * assessment, record a verdict and list what is still open. Verdicts
+ * feed back into rule weights (rules with poor precision lose weight,
+ * reliable ones gain it) and into per-rule precision, recall and alert
+ * volume for tuning.
+ */
+
+import { FraudAssessment } from './fraud-detector';
+import { FraudRuleEngine } from './fraud-rules';
+
+export type CaseVerdict = 'confirmed_fraud' | 'false_positive';
+
+export type CaseStatus = 'open' | 'closed';
+
+export interface FraudCase {
+  id: string;
+  status: CaseStatus;
+  openedAt: number;
+  assessment: FraudAssessment;
+  verdict?: CaseVerdict;
+  note?: string;
+  closedAt?: number;
+}
+
+export interface RuleMetrics {
+  ruleId: string;
+  alerts: number; // assessments the rule fired on
+  reviewed: number; // closed cases the rule fired on
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number; // confirmed fraud the rule missed
+  precision: number | null; // null until a case it fired on is reviewed
+  recall: number | null; // over reviewed cases; null until fraud is confirmed
+  weightMultiplier: number;
+}
+
+export interface CaseManagerOptions {
+  priorStrength?: number; // pseudo-reviews at 50% precision before feedback moves weights
+  maxClosedCases?: number; // closed cases kept for lookup (metrics are aggregated)
+}
+
+export class FraudCaseManager {
+  private rules: FraudRuleEngine;
+  private priorStrength: number;
+  private maxClosedCases: number;
+  private cases: Map<string, FraudCase> = new Map();
+  private closed: string[] = [];
+  private stats: Map<string, RuleStats> = new Map();
+  private sequence: number = 0;
+
+  constructor(rules: FraudRuleEngine, options: CaseManagerOptions = {}) {
+    this.rules = rules;
+    this.priorStrength = options.priorStrength ?? 10;
+    this.maxClosedCases = options.maxClosedCases ?? 10000;
+  }
+
+  /**
+   * Count rule firings for alert volume (every assessment, not just cases)
+   */
+  observe(assessment: FraudAssessment): void {
+    for (const ruleId of assessment.firedRules) {
+      this.ruleStats(ruleId).alerts++;
+    }
+  }
+
+  /**
+   * Open a case for review
+   */
+  openCase(assessment: FraudAssessment): FraudCase {
+    const fraudCase: FraudCase = {
+      id: `case-${Date.now().toString(36)}-${(++this.sequence).toString(36)}`,
+      status: 'open',
+      openedAt: Date.now(),
+      assessment
+    };
+
+    this.cases.set(fraudCase.id, fraudCase);
+    return fraudCase;
+  }
+
+  /**
+   * Close a case with an analyst verdict and feed it back into rule weights
+   */
+  setVerdict(caseId: string, verdict: CaseVerdict, note?: string): FraudCase {
+    const fraudCase = this.cases.get(caseId);
+    if (!fraudCase) {
+      throw new Error(`Unknown fraud case: ${caseId}`);
+    }
+    if (fraudCase.status === 'closed') {
+      throw new Error(`Fraud case ${caseId} already has a verdict (${fraudCase.verdict})`);
+    }
+
+    fraudCase.status = 'closed';
+    fraudCase.verdict = verdict;
+    fraudCase.note = note;
+    fraudCase.closedAt = Date.now();
+
+    const fired = new Set(fraudCase.assessment.firedRules);
+    for (const ruleId of fired) {
+      const stats = this.ruleStats(ruleId);
+      if (verdict === 'confirmed_fraud') {
+        stats.truePositives++;
+      } else {
+        stats.falsePositives++;
+      }
+      this.rules.setWeightMultiplier(ruleId, this.multiplier(stats));
+    }
+
+    if (verdict === 'confirmed_fraud') {
+      // Every known rule that stayed silent missed this one
+      for (const rule of this.rules.getRules().rules) {
+        if (!fired.has(rule.id)) this.ruleStats(rule.id).falseNegatives++;
+      }
+    }
+
+    this.closed.push(caseId);
+    while (this.closed.length > this.maxClosedCases) {
+      this.cases.delete(this.closed.shift()!);
+    }
+
+    return fraudCase;
+  }
+
+  /**
+   * Get case by id
+   */
+  getCase(caseId: string): FraudCase | undefined {
+    return this.cases.get(caseId);
+  }
+
+  /**
+   * Open cases, oldest first
+   */
+  listOpenCases(): FraudCase[] {
+    return [...this.cases.values()]
+      .filter(c => c.status === 'open')
+      .sort((a, b) => a.openedAt - b.openedAt);
+  }
+
+  /**
+   * Precision, recall and alert volume per rule
+   */
+  getRuleMetrics(): RuleMetrics[] {
+    const ids = new Set([...this.rules.getRules().rules.map(r => r.id), ...this.stats.keys()]);
+
+    return [...ids].map(ruleId => {
+      const stats = this.ruleStats(ruleId);
+      const reviewed = stats.truePositives + stats.falsePositives;
+      const fraud = stats.truePositives + stats.falseNegatives;
+
+      return {
+        ruleId,
+        alerts: stats.alerts,
+        reviewed,
+        truePositives: stats.truePositives,
+        falsePositives: stats.falsePositives,
+        falseNegatives: stats.falseNegatives,
+        precision: reviewed > 0 ? stats.truePositives / reviewed : null,
+        recall: fraud > 0 ? stats.truePositives / fraud : null,
+        weightMultiplier: this.multiplier(stats)
+      };
+    });
+  }
+
+  /**
+   * Weight multiplier from smoothed precision (1 at 50%, 0-2 range)
+   */
+  private multiplier(stats: RuleStats): number {
+    const precision =
+      (stats.truePositives + this.priorStrength * 0.5) /
+      (stats.truePositives + stats.falsePositives + this.priorStrength);
+    return 2 * precision;
+  }
+
+  private ruleStats(ruleId: string): RuleStats {
+    let stats = this.stats.get(ruleId);
+    if (!stats) {
+      stats = { alerts: 0, truePositives: 0, falsePositives: 0, falseNegatives: 0 };
+      this.stats.set(ruleId, stats);
+    }
+    return stats;
+  }
+}
+
+interface RuleStats {
+  alerts: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+}
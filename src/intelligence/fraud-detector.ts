@@ -6,13 +6,24 @@
  */
 
 import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { PrivateFeatureStore, PrivateFeatureOptions, categorizeAmount } from './private-features';
+import { PatternStore, PatternStoreOptions, PatternSnapshot } from './pattern-store';
+import { VelocityTracker, VelocityOptions, VelocityBreach } from './velocity-tracker';
+import { FraudRuleEngine } from './fraud-rules';
+import { AnomalyModel } from './anomaly-models';
+import { FraudCaseManager, CaseManagerOptions } from './fraud-cases';
+import { ReplayGuard, ReplayGuardOptions } from './replay-guard';
+import { RiskAttestor, RiskAttestorOptions, RiskAttestation, AttestedRiskLevel } from './risk-attestation';
+import { CollusionGraph, CollusionOptions, CollusionPayment, ClusterInfo } from './collusion-graph';
 
 export interface PaymentData {
   pseudonym: Uint8Array;
   amount: bigint;
   timestamp: bigint;
   chain: string;
-  commitment: Uint8Array;
+  commitment?: Uint8Array; // absent until X402 builds it; all-zero placeholders are rejected
+  stealthAddress?: Uint8Array; // recipient; links pseudonyms paying the same address
 }
 
 export interface FraudAssessment {
@@ -20,32 +31,131 @@ export interface FraudAssessment {
   riskLevel: 'low' | 'medium' | 'high' | 'critical';
   anomalies: string[];
   confidence: number;
+  hardLimits: VelocityBreach[]; // velocity limits this payment would exceed
+  firedRules: string[]; // ids of the detection rules that fired
+  modelScores: Record<string, number>; // anomaly model name -> 0-1 score
+  cluster?: Omit<ClusterInfo, 'members'>; // coordinated cluster the pseudonym belongs to
+  flagged: boolean; // riskScore reached the fraud threshold
+  commitment?: string; // hex commitment the assessment was computed for
 }
 
 export interface DetectionOptions {
-  preservePrivacy: boolean;
-  sensitivity: number; // 0-1
+  preservePrivacy?: boolean; // default true
+  sensitivity?: number; // 0-1, defaults to the detector's configured sensitivity
+}
+
+export interface FraudDetectorConfig {
+  privacy?: PrivateFeatureOptions; // bucketing granularity, optional DP noise, expiry and cap
+  patterns?: PatternStoreOptions; // expiry and cap for direct (non-private) statistics
+  velocity?: VelocityOptions; // sliding windows and per-window limits
+  rules?: FraudRuleEngine; // defaults to FRAUD_RULES_PATH or the built-in rules
+  fraudThreshold?: number; // risk score flagged as fraud (default FRAUD_THRESHOLD or 0.7)
+  sensitivity?: number; // default sensitivity (ANOMALY_DETECTION_SENSITIVITY or 0.5)
+  anomalyModels?: AnomalyModel[]; // online scorers; best score feeds the `anomalyScore` rule feature
+  collusion?: CollusionOptions | false; // cross-pseudonym ring detection (false disables)
+  caseReview?: CaseManagerOptions; // how strongly analyst verdicts move rule weights
+  attestation?: RiskAttestorOptions; // signing key and validity of risk attestations
+  replay?: ReplayGuardOptions; // commitment replay / double-submission window
+}
+
+export interface FeatureSet {
+  amountCategory: number;
+  timePattern: number;
+  chainPattern: number;
+  frequency: number;
+  amountDeviation: number;
 }
 
 export class FraudDetector {
-  private patterns: Map<string, PaymentPattern> = new Map();
-  private anomalyThreshold: number = 0.7;
+  private patterns: PatternStore;
+  private privateFeatures: PrivateFeatureStore;
+  private velocity: VelocityTracker;
+  private rules: FraudRuleEngine;
+  private anomalyModels: AnomalyModel[];
+  private collusion?: CollusionGraph;
+  private cases: FraudCaseManager;
+  private attestor: RiskAttestor;
+  private replay: ReplayGuard;
+  private fraudThreshold: number;
+  private sensitivity: number;
+
+  constructor(config: FraudDetectorConfig = {}) {
+    this.privateFeatures = new PrivateFeatureStore(config.privacy);
+    this.patterns = new PatternStore(config.patterns);
+    this.velocity = new VelocityTracker(config.velocity);
+    const envThreshold = Number(process.env.FRAUD_THRESHOLD);
+    const envSensitivity = Number(process.env.ANOMALY_DETECTION_SENSITIVITY);
+
+    this.rules = config.rules ?? FraudRuleEngine.fromEnv();
+    this.anomalyModels = config.anomalyModels ?? [];
+    this.collusion = config.collusion === false ? undefined : new CollusionGraph(config.collusion);
+    this.cases = new FraudCaseManager(this.rules, config.caseReview);
+    this.attestor = new RiskAttestor(config.attestation);
+    this.replay = new ReplayGuard(config.replay);
+    this.fraudThreshold = config.fraudThreshold ?? (envThreshold > 0 && envThreshold <= 1 ? envThreshold : 0.7);
+    this.sensitivity = config.sensitivity ?? (envSensitivity > 0 && envSensitivity <= 1 ? envSensitivity : 0.5);
+  }
 
   /**
    * Assess fraud risk for payment
    */
   async assessRisk(
     payment: PaymentData,
-    options: DetectionOptions = { preservePrivacy: true, sensitivity: 0.5 }
+    options: DetectionOptions = {}
   ): Promise<FraudAssessment> {
+    if (payment.commitment) {
+      ReplayGuard.assertCommitment(payment.commitment);
+    }
+
+    const sensitivity = options.sensitivity ?? this.sensitivity;
+    const preservePrivacy = options.preservePrivacy ?? true;
+    const key = PrivateFeatureStore.hashPseudonym(payment.pseudonym);
+
     // Extract features (privacy-preserving)
-    const features = this.extractFeatures(payment, options.preservePrivacy);
+    const features = this.extractFeatures(payment, preservePrivacy);
+
+    // Score against learned normal traffic (models only see bucketed features)
+    const modelScores: Record<string, number> = {};
+    if (this.anomalyModels.length > 0) {
+      const privateFeatures = preservePrivacy ? features : this.privateFeatures.extract(payment);
+      const vector = this.anomalyVector(payment, privateFeatures);
+      for (const model of this.anomalyModels) {
+        modelScores[model.name] = model.score(key, vector);
+      }
+    }
+    const anomalyScore = Math.max(0, ...Object.values(modelScores));
+
+    // Coordinated rings across pseudonyms
+    const cluster = this.collusion?.assess(this.collusionPayment(key, payment));
+
+    // Reused commitment or double-submitted payment
+    const replay = this.replay.check(payment);
 
     // Detect anomalies
-    const anomalies = this.detectAnomalies(features, options.sensitivity);
+    const evaluation = this.rules.evaluate(
+      {
+        ...features,
+        anomalyScore,
+        clusterRisk: cluster?.risk ?? 0,
+        commitmentReplay: replay.commitment ? 1 : 0,
+        duplicatePayment: replay.payment ? 1 : 0
+      },
+      sensitivity
+    );
+    const anomalies = [...evaluation.anomalies];
+
+    // Velocity limits are hard limits, independent of sensitivity
+    const hardLimits = this.velocity.check(key, payment.amount, payment.timestamp).breaches;
+    for (const window of new Set(hardLimits.map(b => b.window))) {
+      anomalies.push(`velocity_limit_${window}`);
+    }
 
-    // Calculate risk score
-    const riskScore = this.calculateRiskScore(anomalies, features);
+    // Calculate risk score (rule weights plus anomalies raised outside the rules)
+    const extraAnomalies = anomalies.length - evaluation.anomalies.length;
+    const riskScore = Math.min(
+      1.0,
+      evaluation.risk + extraAnomalies * this.rules.getRules().defaultAnomalyWeight
+    );
 
     // Determine risk level
     const riskLevel = this.scoreToLevel(riskScore);
@@ -53,121 +163,104 @@ export class FraudDetector {
     // Calculate confidence
     const confidence = this.calculateConfidence(features, anomalies);
 
-    return {
+    const assessment: FraudAssessment = {
       riskScore,
       riskLevel,
       anomalies,
-      confidence
+      confidence,
+      hardLimits,
+      firedRules: evaluation.firedRules,
+      modelScores,
+      cluster: cluster && { id: cluster.id, size: cluster.size, risk: cluster.risk },
+      flagged: riskScore >= this.fraudThreshold,
+      commitment: payment.commitment && bytesToHex(payment.commitment)
     };
+
+    this.cases.observe(assessment);
+    return assessment;
   }
 
   /**
-   * Extract features from payment (privacy-preserving)
+   * Sign an attestation that the payment's commitment passed risk checks
+   * (reveals no features; counterparties verify with verifyRiskAttestation)
    */
-  private extractFeatures(
+  attest(
     payment: PaymentData,
-    preservePrivacy: boolean
-  ): FeatureSet {
-    if (preservePrivacy) {
-      // Use hashed features to preserve privacy
-      return this.extractPrivateFeatures(payment);
-    } else {
-      // Use direct features (for testing/debugging)
-      return this.extractDirectFeatures(payment);
+    assessment: FraudAssessment,
+    maxRiskLevel?: AttestedRiskLevel
+  ): RiskAttestation {
+    if (!payment.commitment) {
+      throw new Error('Cannot attest a payment without a commitment');
+    }
+    ReplayGuard.assertCommitment(payment.commitment);
+    if (assessment.commitment !== bytesToHex(payment.commitment)) {
+      throw new Error('Assessment was not computed for this payment commitment');
     }
+
+    return this.attestor.attest(payment.commitment, assessment, this.getPolicyVersion(), maxRiskLevel);
   }
 
   /**
-   * Extract privacy-preserving features
+   * Public key counterparties use to verify attestations (hex)
    */
-  private extractPrivateFeatures(payment: PaymentData): FeatureSet {
-    // Hash-based feature extraction
-    const hash = sha256(payment.commitment);
-    
-    return {
-      amountCategory: this.hashToCategory(hash, 0, 5),
-      timePattern: this.hashToCategory(hash, 1, 4),
-      chainPattern: this.hashToCategory(hash, 2, 7),
-      frequency: this.hashToNumber(hash, 3, 100) / 100,
-      amountDeviation: this.hashToNumber(hash, 4, 50) / 100
-    };
+  getAttestationPublicKey(): string {
+    return this.attestor.publicKey;
   }
 
   /**
-   * Extract direct features (non-private, for testing)
+   * Version of the detection policy (active rule set plus review weight multipliers)
    */
-  private extractDirectFeatures(payment: PaymentData): FeatureSet {
-    // Get pattern for pseudonym
-    const pattern = this.patterns.get(this.bytesToHex(payment.pseudonym));
-    
-    return {
-      amountCategory: this.categorizeAmount(payment.amount),
-      timePattern: pattern ? this.analyzeTimePattern(pattern, payment.timestamp) : 0,
-      chainPattern: this.analyzeChainPattern(pattern, payment.chain),
-      frequency: pattern ? pattern.frequency : 0,
-      amountDeviation: pattern ? this.calculateDeviation(pattern, payment.amount) : 0
-    };
+  getPolicyVersion(): string {
+    const version = this.rules.getRules().version;
+    const multipliers = Object.entries(this.rules.getWeightMultipliers())
+      .filter(([, multiplier]) => multiplier !== 1)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    if (multipliers.length === 0) return version;
+
+    const digest = bytesToHex(sha256(utf8ToBytes(JSON.stringify(multipliers))));
+    return `${version}+w.${digest.slice(0, 12)}`;
   }
 
   /**
-   * Detect anomalies in features
+   * Case review for this detector's rules (verdicts adjust rule weights)
    */
-  private detectAnomalies(features: FeatureSet, sensitivity: number): string[] {
-    const anomalies: string[] = [];
-
-    // Anomaly: Unusual amount category
-    if (features.amountCategory > 4 && sensitivity > 0.3) {
-      anomalies.push('unusual_amount_category');
-    }
-
-    // Anomaly: High frequency (potential spam)
-    if (features.frequency > 0.8 && sensitivity > 0.4) {
-      anomalies.push('high_frequency');
-    }
-
-    // Anomaly: High amount deviation
-    if (features.amountDeviation > 0.5 && sensitivity > 0.5) {
-      anomalies.push('high_amount_deviation');
-    }
-
-    // Anomaly: Unusual time pattern
-    if (features.timePattern === 0 && sensitivity > 0.6) {
-      anomalies.push('irregular_timing');
-    }
-
-    // Anomaly: Chain switching pattern
-    if (features.chainPattern > 5 && sensitivity > 0.7) {
-      anomalies.push('excessive_chain_switching');
-    }
-
-    return anomalies;
+  getCaseManager(): FraudCaseManager {
+    return this.cases;
   }
 
   /**
-   * Calculate risk score from anomalies
+   * Extract features from payment (privacy-preserving)
    */
-  private calculateRiskScore(anomalies: string[], features: FeatureSet): number {
-    let risk = 0;
-
-    // Base risk from anomalies
-    risk += anomalies.length * 0.15;
-
-    // Risk from frequency
-    if (features.frequency > 0.9) {
-      risk += 0.2;
-    }
-
-    // Risk from amount deviation
-    if (features.amountDeviation > 0.7) {
-      risk += 0.15;
+  private extractFeatures(
+    payment: PaymentData,
+    preservePrivacy: boolean
+  ): FeatureSet {
+    if (preservePrivacy) {
+      // Bucketed, coarse-grained history (no raw values)
+      return this.privateFeatures.extract(payment);
+    } else {
+      // Use direct features (for testing/debugging)
+      return this.extractDirectFeatures(payment);
     }
+  }
 
-    // Risk from unusual patterns
-    if (features.timePattern === 0) {
-      risk += 0.1;
-    }
+  /**
+   * Extract direct features (non-private, for testing)
+   */
+  private extractDirectFeatures(payment: PaymentData): FeatureSet {
+    // Get pattern for pseudonym
+    const pattern = this.patterns.get(
+      PrivateFeatureStore.hashPseudonym(payment.pseudonym),
+      Number(payment.timestamp)
+    );
 
-    return Math.min(1.0, risk);
+    return {
+      amountCategory: categorizeAmount(payment.amount),
+      timePattern: pattern ? this.analyzeTimePattern(pattern) : 0,
+      chainPattern: pattern ? this.analyzeChainPattern(pattern, payment.chain) : 1,
+      frequency: pattern ? pattern.count / 10 : 0,
+      amountDeviation: pattern ? this.calculateDeviation(pattern, payment.amount) : 0
+    };
   }
 
   /**
@@ -202,117 +295,77 @@ export class FraudDetector {
    * Update payment pattern (for learning)
    */
   updatePattern(payment: PaymentData): void {
-    const key = this.bytesToHex(payment.pseudonym);
-    const existing = this.patterns.get(key);
+    if (payment.commitment) {
+      ReplayGuard.assertCommitment(payment.commitment);
+    }
+    this.replay.record(payment);
 
-    if (existing) {
-      existing.payments.push(payment);
-      existing.frequency = existing.payments.length / 10; // Normalize
-      existing.lastUpdated = Date.now();
-    } else {
-      this.patterns.set(key, {
-        pseudonym: payment.pseudonym,
-        payments: [payment],
-        frequency: 0.1,
-        avgAmount: Number(payment.amount),
-        chains: new Set([payment.chain]),
-        lastUpdated: Date.now()
-      });
+    const hashedKey = PrivateFeatureStore.hashPseudonym(payment.pseudonym);
+
+    // Models learn from the payment as it looked before joining the history
+    if (this.anomalyModels.length > 0) {
+      const vector = this.anomalyVector(payment, this.privateFeatures.extract(payment));
+      for (const model of this.anomalyModels) {
+        model.update(hashedKey, vector);
+      }
     }
-  }
 
-  /**
-   * Hash to category
-   */
-  private hashToCategory(hash: Uint8Array, offset: number, max: number): number {
-    const index = offset % hash.length;
-    return hash[index] % max;
+    this.privateFeatures.record(payment);
+    this.velocity.record(hashedKey, payment.amount, payment.timestamp);
+    this.collusion?.record(this.collusionPayment(hashedKey, payment));
+    this.patterns.record(hashedKey, payment);
   }
 
   /**
-   * Hash to number
+   * Collusion graph view of a payment (hashed identifiers only)
    */
-  private hashToNumber(hash: Uint8Array, offset: number, max: number): number {
-    const index = offset % hash.length;
-    return (hash[index] / 255) * max;
+  private collusionPayment(key: string, payment: PaymentData): CollusionPayment {
+    return {
+      key,
+      addressKey: payment.stealthAddress && PrivateFeatureStore.hashPseudonym(payment.stealthAddress),
+      amount: payment.amount,
+      timestamp: payment.timestamp
+    };
   }
 
   /**
-   * Categorize amount
+   * Anomaly model input: amount bucket plus history-relative features
    */
-  private categorizeAmount(amount: bigint): number {
-    if (amount < 1000n) return 0;
-    if (amount < 10000n) return 1;
-    if (amount < 100000n) return 2;
-    if (amount < 1000000n) return 3;
-    return 4;
+  private anomalyVector(payment: PaymentData, features: FeatureSet): number[] {
+    return [
+      PrivateFeatureStore.amountBucket(payment.amount),
+      features.frequency,
+      features.amountDeviation,
+      features.chainPattern,
+      features.timePattern
+    ];
   }
 
   /**
    * Analyze time pattern
    */
-  private analyzeTimePattern(pattern: PaymentPattern, timestamp: bigint): number {
-    if (pattern.payments.length < 2) return 0;
-
-    const intervals: number[] = [];
-    for (let i = 1; i < pattern.payments.length; i++) {
-      intervals.push(
-        Number(pattern.payments[i].timestamp) - Number(pattern.payments[i - 1].timestamp)
-      );
-    }
-
-    const avgInterval = intervals.reduce((a, b) => a + b, 0) / intervals.length;
-    const variance = intervals.reduce((sum, interval) => {
-      return sum + Math.pow(interval - avgInterval, 2);
-    }, 0) / intervals.length;
+  private analyzeTimePattern(pattern: PatternSnapshot): number {
+    if (pattern.intervalCount < 1) return 0;
 
     // Low variance = regular pattern (1)
     // High variance = irregular (0)
-    return variance < Math.pow(avgInterval * 0.3, 2) ? 1 : 0;
+    return pattern.intervalVariance < Math.pow(pattern.intervalMean * 0.3, 2) ? 1 : 0;
   }
 
   /**
-   * Analyze chain pattern
+   * Analyze chain pattern (distinct chains including this one)
    */
-  private analyzeChainPattern(pattern: PaymentPattern, chain: string): number {
-    pattern.chains.add(chain);
-    return pattern.chains.size;
+  private analyzeChainPattern(pattern: PatternSnapshot, chain: string): number {
+    return pattern.chains.has(chain) ? pattern.chains.size : pattern.chains.size + 1;
   }
 
   /**
    * Calculate amount deviation
    */
-  private calculateDeviation(pattern: PaymentPattern, amount: bigint): number {
-    const amounts = pattern.payments.map(p => Number(p.amount));
-    const avg = amounts.reduce((a, b) => a + b, 0) / amounts.length;
-    const deviation = Math.abs(Number(amount) - avg) / avg;
-    return Math.min(1.0, deviation);
-  }
+  private calculateDeviation(pattern: PatternSnapshot, amount: bigint): number {
+    if (pattern.amountMean <= 0) return 0;
 
-  /**
-   * Convert bytes to hex
-   */
-  private bytesToHex(bytes: Uint8Array): string {
-    return Array.from(bytes)
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
+    const deviation = Math.abs(Number(amount) - pattern.amountMean) / pattern.amountMean;
+    return Math.min(1.0, deviation);
   }
 }
-
-interface FeatureSet {
-  amountCategory: number;
-  timePattern: number;
-  chainPattern: number;
-  frequency: number;
-  amountDeviation: number;
-}
-
-interface PaymentPattern {
-  pseudonym: Uint8Array;
-  payments: PaymentData[];
-  frequency: number;
-  avgAmount: number;
-  chains: Set<string>;
-  lastUpdated: number;
-}
-
@@ -0,0 +1,158 @@
+/**
+ * Fraud Decision Policy
+ *
+ * Maps fraud assessments to enforced actions: allow, step up privacy,
+ * require reputation, hold, or block. Risk thresholds are configurable
+ * per transaction type. Blocks, holds and reputation requirements surface
+ * as PaymentBlockedError so callers cannot mistake them for a usable result.
+ */
+
+import { FraudAssessment } from './fraud-detector';
+import { TransactionType } from './privacy-adapter';
+
+export type FraudAction = 'allow' | 'step_up_privacy' | 'require_reputation' | 'hold' | 'block';
+
+/**
+ * Minimum risk score for each action (escalating)
+ */
+export interface PolicyThresholds {
+  stepUpPrivacy: number;
+  requireReputation: number;
+  hold: number;
+  block: number;
+}
+
+export interface FraudDecision {
+  action: FraudAction;
+  reasons: string[]; // anomalies and limits behind the action
+  riskScore: number;
+  transactionType: TransactionType;
+  holdFor?: number; // milliseconds, for 'hold'
+  minReputation?: number; // 0-100 reputation score required, for 'require_reputation'
+}
+
+export interface FraudPolicyOptions {
+  defaults?: Partial<PolicyThresholds>;
+  thresholds?: Partial<Record<TransactionType, Partial<PolicyThresholds>>>;
+  hardLimitAction?: FraudAction; // action when velocity limits are exceeded
+  flaggedAction?: FraudAction; // action when the detector flags the payment (FRAUD_THRESHOLD)
+  holdDuration?: number; // milliseconds
+  minReputation?: number; // 0-100
+}
+
+export const DEFAULT_POLICY_THRESHOLDS: PolicyThresholds = {
+  stepUpPrivacy: 0.4,
+  requireReputation: 0.6,
+  hold: 0.7,
+  block: 0.8
+};
+
+const SEVERITY: FraudAction[] = ['allow', 'step_up_privacy', 'require_reputation', 'hold', 'block'];
+
+/**
+ * Actions that withhold the route: the payment cannot proceed as requested
+ */
+export const REFUSING_ACTIONS: FraudAction[] = ['require_reputation', 'hold', 'block'];
+
+/**
+ * Payment refused by the fraud policy; `decision.action` says whether it
+ * is blocked, held (retry after `holdFor`) or needs `minReputation`
+ */
+export class PaymentBlockedError extends Error {
+  readonly decision: FraudDecision;
+  readonly assessment: FraudAssessment;
+
+  constructor(decision: FraudDecision, assessment: FraudAssessment) {
+    const outcome =
+      decision.action === 'hold' ? `held for ${decision.holdFor}ms` :
+      decision.action === 'require_reputation' ? `refused below reputation ${decision.minReputation}` :
+      'blocked';
+    super(
+      `Payment ${outcome} by fraud policy (risk ${assessment.riskScore.toFixed(2)}` +
+        (decision.reasons.length > 0 ? `: ${decision.reasons.join(', ')})` : ')')
+    );
+    this.name = 'PaymentBlockedError';
+    this.decision = decision;
+    this.assessment = assessment;
+  }
+}
+
+export class FraudDecisionPolicy {
+  private defaults: PolicyThresholds;
+  private thresholds: Partial<Record<TransactionType, PolicyThresholds>> = {};
+  private hardLimitAction: FraudAction;
+  private flaggedAction: FraudAction;
+  private holdDuration: number;
+  private minReputation: number;
+
+  constructor(options: FraudPolicyOptions = {}) {
+    this.defaults = validateThresholds({ ...DEFAULT_POLICY_THRESHOLDS, ...options.defaults }, 'default');
+
+    for (const [type, overrides] of Object.entries(options.thresholds || {})) {
+      this.thresholds[type as TransactionType] = validateThresholds({ ...this.defaults, ...overrides }, type);
+    }
+
+    this.hardLimitAction = options.hardLimitAction ?? 'hold';
+    this.flaggedAction = options.flaggedAction ?? 'hold';
+    this.holdDuration = options.holdDuration ?? 60 * 1000;
+    this.minReputation = options.minReputation ?? 60;
+  }
+
+  /**
+   * Decide what to do with an assessed payment
+   */
+  decide(assessment: FraudAssessment, transactionType: TransactionType = 'payment'): FraudDecision {
+    const thresholds = this.getThresholds(transactionType);
+    const risk = assessment.riskScore;
+
+    let action: FraudAction = 'allow';
+    if (risk >= thresholds.block) action = 'block';
+    else if (risk >= thresholds.hold) action = 'hold';
+    else if (risk >= thresholds.requireReputation) action = 'require_reputation';
+    else if (risk >= thresholds.stepUpPrivacy) action = 'step_up_privacy';
+
+    // Hard limits and the detector's fraud flag escalate regardless of thresholds
+    if (assessment.hardLimits.length > 0 && SEVERITY.indexOf(this.hardLimitAction) > SEVERITY.indexOf(action)) {
+      action = this.hardLimitAction;
+    }
+    if (assessment.flagged && SEVERITY.indexOf(this.flaggedAction) > SEVERITY.indexOf(action)) {
+      action = this.flaggedAction;
+    }
+
+    const decision: FraudDecision = {
+      action,
+      reasons: [...assessment.anomalies],
+      riskScore: risk,
+      transactionType
+    };
+
+    if (action === 'hold') decision.holdFor = this.holdDuration;
+    if (action === 'require_reputation') decision.minReputation = this.minReputation;
+
+    return decision;
+  }
+
+  /**
+   * Thresholds in force for a transaction type
+   */
+  getThresholds(transactionType: TransactionType): PolicyThresholds {
+    return this.thresholds[transactionType] ?? this.defaults;
+  }
+}
+
+function validateThresholds(thresholds: PolicyThresholds, label: string): PolicyThresholds {
+  const order = [thresholds.stepUpPrivacy, thresholds.requireReputation, thresholds.hold, thresholds.block];
+
+  if (order.some(t => typeof t !== 'number' || t < 0 || t > 1)) {
+    throw new Error(`Fraud policy thresholds (${label}) must be within 0-1`);
+  }
+  for (let i = 1; i < order.length; i++) {
+    if (order[i] < order[i - 1]) {
+      throw new Error(
+        `Fraud policy thresholds (${label}) must escalate: stepUpPrivacy <= requireReputation <= hold <= block`
+      );
+    }
+  }
+
+  return thresholds;
+}
@@ -0,0 +1,344 @@
+/**
+ * Fraud Rule Engine
+ *
+ * Declarative detection rules (JSON or YAML): feature conditions,
+ * sensitivity gates, risk weights and anomaly names. Rule sets are
+ * validated on load and can be reloaded at runtime; a bad file never
+ * replaces the active rules.
+ */
+
+import { existsSync, readFileSync, watchFile, unwatchFile, Stats } from 'fs';
+import { parse as parseYaml } from 'yaml';
+
+export type ComparisonOperator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+export interface RuleCondition {
+  feature: string; // feature name, see RULE_FEATURES
+  op: ComparisonOperator;
+  value: number;
+}
+
+export interface FraudRule {
+  id: string;
+  conditions: RuleCondition[]; // all must hold
+  weight: number; // risk added when the rule fires, 0-1
+  anomaly?: string; // anomaly reported when fired (risk-only rules omit it)
+  minSensitivity?: number; // rule only runs when sensitivity exceeds this
+  enabled?: boolean;
+}
+
+export interface FraudRuleSet {
+  version: string;
+  defaultAnomalyWeight: number; // risk per anomaly raised outside the rules (e.g. velocity)
+  rules: FraudRule[];
+}
+
+export interface RuleEvaluation {
+  firedRules: string[];
+  anomalies: string[];
+  risk: number; // summed weights of fired rules, uncapped
+}
+
+export interface FraudRuleEngineOptions {
+  rules?: FraudRuleSet;
+  path?: string; // JSON or YAML rule file; replaces `rules`
+  onReloadError?: (error: Error) => void; // watch() reload failures and fromEnv() fallbacks
+}
+
+export const RULE_FEATURES = [
+  'amountCategory',
+  'timePattern',
+  'chainPattern',
+  'frequency',
+  'amountDeviation',
+  'anomalyScore', // highest online anomaly model score, 0 without models
+  'clusterRisk', // risk of the coordinated cluster the pseudonym belongs to, 0 if none
+  'commitmentReplay', // 1 if the commitment was seen within the replay window
+  'duplicatePayment' // 1 if the same pseudonym, stealth address and amount was seen
+];
+
+const OPERATORS: ComparisonOperator[] = ['>', '>=', '<', '<=', '==', '!='];
+
+export const DEFAULT_FRAUD_RULES: FraudRuleSet = {
+  version: 'default-1',
+  defaultAnomalyWeight: 0.15,
+  rules: [
+    {
+      id: 'unusual_amount_category', anomaly: 'unusual_amount_category', weight: 0.15, minSensitivity: 0.3,
+      conditions: [{ feature: 'amountCategory', op: '>', value: 4 }]
+    },
+    {
+      id: 'high_frequency', anomaly: 'high_frequency', weight: 0.15, minSensitivity: 0.4,
+      conditions: [{ feature: 'frequency', op: '>', value: 0.8 }]
+    },
+    {
+      id: 'high_amount_deviation', anomaly: 'high_amount_deviation', weight: 0.15, minSensitivity: 0.5,
+      conditions: [{ feature: 'amountDeviation', op: '>', value: 0.5 }]
+    },
+    {
+      id: 'irregular_timing', anomaly: 'irregular_timing', weight: 0.15, minSensitivity: 0.6,
+      conditions: [{ feature: 'timePattern', op: '==', value: 0 }]
+    },
+    {
+      id: 'excessive_chain_switching', anomaly: 'excessive_chain_switching', weight: 0.15, minSensitivity: 0.7,
+      conditions: [{ feature: 'chainPattern', op: '>', value: 5 }]
+    },
+    {
+      id: 'statistical_outlier', anomaly: 'statistical_outlier', weight: 0.2, minSensitivity: 0.3,
+      conditions: [{ feature: 'anomalyScore', op: '>', value: 0.8 }]
+    },
+    {
+      id: 'coordinated_activity', anomaly: 'coordinated_activity', weight: 0.3,
+      conditions: [{ feature: 'clusterRisk', op: '>', value: 0 }]
+    },
+    {
+      id: 'commitment_replay', anomaly: 'commitment_replay', weight: 1.0,
+      conditions: [{ feature: 'commitmentReplay', op: '==', value: 1 }]
+    },
+    {
+      id: 'duplicate_payment', anomaly: 'duplicate_payment', weight: 0.6,
+      conditions: [{ feature: 'duplicatePayment', op: '==', value: 1 }]
+    },
+    // Risk-only rules
+    { id: 'very_high_frequency', weight: 0.2, conditions: [{ feature: 'frequency', op: '>', value: 0.9 }] },
+    { id: 'extreme_amount_deviation', weight: 0.15, conditions: [{ feature: 'amountDeviation', op: '>', value: 0.7 }] },
+    { id: 'irregular_timing_risk', weight: 0.1, conditions: [{ feature: 'timePattern', op: '==', value: 0 }] }
+  ]
+};
+
+export class FraudRuleEngine {
+  private ruleSet: FraudRuleSet;
+  private path?: string;
+  private onReloadError?: (error: Error) => void;
+  private listener?: (curr: Stats, prev: Stats) => void;
+  private weightMultipliers: Map<string, number> = new Map(); // review feedback, survives reloads
+  private loadError?: Error; // why the configured rule file is not in use
+
+  constructor(options: FraudRuleEngineOptions = {}) {
+    this.path = options.path;
+    this.onReloadError = options.onReloadError;
+    this.ruleSet = options.path
+      ? FraudRuleEngine.readFile(options.path)
+      : FraudRuleEngine.validate(options.rules ?? DEFAULT_FRAUD_RULES);
+  }
+
+  /**
+   * Create engine from env (FRAUD_RULES_PATH)
+   *
+   * A missing rule file falls back to the built-in rules; the fallback is
+   * reported to `onReloadError` and through getLoadError().
+   */
+  static fromEnv(
+    env: Record<string, string | undefined> = process.env,
+    onReloadError?: (error: Error) => void
+  ): FraudRuleEngine {
+    const path = env.FRAUD_RULES_PATH || undefined;
+    if (path && !existsSync(path)) {
+      const engine = new FraudRuleEngine({ onReloadError });
+      engine.loadError = new Error(`Fraud rules file ${path} not found; using built-in rules`);
+      onReloadError?.(engine.loadError);
+      return engine;
+    }
+    return new FraudRuleEngine({ path, onReloadError });
+  }
+
+  /**
+   * Parse and validate a rule file (.yaml/.yml as YAML, otherwise JSON)
+   */
+  static readFile(path: string): FraudRuleSet {
+    const text = readFileSync(path, 'utf8');
+    const raw = /\.ya?ml$/i.test(path) ? parseYaml(text) : JSON.parse(text);
+    return FraudRuleEngine.validate(raw, path);
+  }
+
+  /**
+   * Validate a rule set, throwing on the first problem
+   */
+  static validate(raw: unknown, source: string = 'rule set'): FraudRuleSet {
+    // A bare array is a rule list with default settings
+    const input = (Array.isArray(raw) ? { rules: raw } : raw) as Partial<FraudRuleSet> | null;
+    if (!input || typeof input !== 'object' || !Array.isArray(input.rules)) {
+      throw new Error(`Fraud rules ${source}: expected an object with a rules array`);
+    }
+
+    const defaultAnomalyWeight = input.defaultAnomalyWeight ?? DEFAULT_FRAUD_RULES.defaultAnomalyWeight;
+    if (!isUnit(defaultAnomalyWeight)) {
+      throw new Error(`Fraud rules ${source}: defaultAnomalyWeight must be within 0-1`);
+    }
+
+    const ids = new Set<string>();
+    const rules = input.rules.map((rule: FraudRule, i: number) => {
+      const label = `${source} rule ${rule?.id ?? `#${i}`}`;
+
+      if (!rule || typeof rule.id !== 'string' || rule.id === '') {
+        throw new Error(`Fraud rules ${label}: id is required`);
+      }
+      if (ids.has(rule.id)) {
+        throw new Error(`Fraud rules ${label}: duplicate id`);
+      }
+      ids.add(rule.id);
+
+      if (!isUnit(rule.weight)) {
+        throw new Error(`Fraud rules ${label}: weight must be within 0-1`);
+      }
+      if (rule.minSensitivity !== undefined && !isUnit(rule.minSensitivity)) {
+        throw new Error(`Fraud rules ${label}: minSensitivity must be within 0-1`);
+      }
+      if (rule.anomaly !== undefined && (typeof rule.anomaly !== 'string' || rule.anomaly === '')) {
+        throw new Error(`Fraud rules ${label}: anomaly must be a non-empty string`);
+      }
+      if (!Array.isArray(rule.conditions) || rule.conditions.length === 0) {
+        throw new Error(`Fraud rules ${label}: at least one condition is required`);
+      }
+
+      for (const condition of rule.conditions) {
+        if (!RULE_FEATURES.includes(condition?.feature)) {
+          throw new Error(
+            `Fraud rules ${label}: unknown feature ${condition?.feature} (expected one of ${RULE_FEATURES.join(', ')})`
+          );
+        }
+        if (!OPERATORS.includes(condition.op)) {
+          throw new Error(`Fraud rules ${label}: unknown operator ${condition.op}`);
+        }
+        if (typeof condition.value !== 'number' || !Number.isFinite(condition.value)) {
+          throw new Error(`Fraud rules ${label}: condition value must be a number`);
+        }
+      }
+
+      return { ...rule, conditions: rule.conditions.map(c => ({ ...c })) };
+    });
+
+    return {
+      version: input.version !== undefined ? String(input.version) : 'unversioned',
+      defaultAnomalyWeight,
+      rules
+    };
+  }
+
+  /**
+   * Evaluate rules against features
+   */
+  evaluate(features: Record<string, number>, sensitivity: number): RuleEvaluation {
+    const firedRules: string[] = [];
+    const anomalies: string[] = [];
+    let risk = 0;
+
+    for (const rule of this.ruleSet.rules) {
+      if (rule.enabled === false) continue;
+      if (rule.minSensitivity !== undefined && !(sensitivity > rule.minSensitivity)) continue;
+      if (!rule.conditions.every(c => compare(features[c.feature], c.op, c.value))) continue;
+
+      firedRules.push(rule.id);
+      risk += this.effectiveWeight(rule);
+      if (rule.anomaly && !anomalies.includes(rule.anomaly)) {
+        anomalies.push(rule.anomaly);
+      }
+    }
+
+    return { firedRules, anomalies, risk };
+  }
+
+  /**
+   * Rule weight after review feedback, 0-1
+   */
+  effectiveWeight(rule: FraudRule): number {
+    const multiplier = this.weightMultipliers.get(rule.id) ?? 1;
+    return Math.max(0, Math.min(1, rule.weight * multiplier));
+  }
+
+  /**
+   * Scale a rule's configured weight (1 restores it)
+   */
+  setWeightMultiplier(ruleId: string, multiplier: number): void {
+    if (!Number.isFinite(multiplier) || multiplier < 0) {
+      throw new Error(`Weight multiplier for rule ${ruleId} must be a non-negative number`);
+    }
+    this.weightMultipliers.set(ruleId, multiplier);
+  }
+
+  /**
+   * Review weight multipliers by rule id
+   */
+  getWeightMultipliers(): Record<string, number> {
+    return Object.fromEntries(this.weightMultipliers);
+  }
+
+  /**
+   * Replace the active rule set (validated first)
+   */
+  setRules(rules: FraudRuleSet): void {
+    this.ruleSet = FraudRuleEngine.validate(rules);
+  }
+
+  /**
+   * Re-read the rule file; the active rules stay in place if it is invalid
+   */
+  reload(): FraudRuleSet {
+    if (!this.path) {
+      throw new Error('Fraud rules were not loaded from a file; nothing to reload');
+    }
+    this.ruleSet = FraudRuleEngine.readFile(this.path);
+    return this.ruleSet;
+  }
+
+  /**
+   * Reload whenever the rule file changes
+   */
+  watch(intervalMs: number = 5000): void {
+    if (!this.path) {
+      throw new Error('Fraud rules were not loaded from a file; nothing to watch');
+    }
+    if (this.listener) return;
+
+    this.listener = (curr, prev) => {
+      if (curr.mtimeMs === prev.mtimeMs) return;
+      try {
+        this.reload();
+      } catch (error) {
+        this.onReloadError?.(error as Error);
+      }
+    };
+    watchFile(this.path, { interval: intervalMs, persistent: false }, this.listener);
+  }
+
+  /**
+   * Stop watching the rule file
+   */
+  unwatch(): void {
+    if (this.path && this.listener) {
+      unwatchFile(this.path, this.listener);
+      this.listener = undefined;
+    }
+  }
+
+  /**
+   * Why the configured rule file is not in use (undefined when it is, or none was configured)
+   */
+  getLoadError(): Error | undefined {
+    return this.loadError;
+  }
+
+  /**
+   * Get the active rule set
+   */
+  getRules(): FraudRuleSet {
+    return this.ruleSet;
+  }
+}
+
+function compare(actual: number | undefined, op: ComparisonOperator, value: number): boolean {
+  if (actual === undefined) return false;
+
+  switch (op) {
+    case '>': return actual > value;
+    case '>=': return actual >= value;
+    case '<': return actual < value;
+    case '<=': return actual <= value;
+    case '==': return actual === value;
+    case '!=': return actual !== value;
+  }
+}
+
+function isUnit(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
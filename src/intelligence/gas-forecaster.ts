@@ -0,0 +1,202 @@
+/**
+ * Gas Price Forecaster
+ *
+ * Keeps a rolling per-chain series of observed fee samples and predicts
+ * short-horizon gas prices (trend-following EWMA with percentile bands), so the router
+ * can tell whether to send now or wait for a cheaper window
+ */
+
+export interface GasSample {
+  timestamp: number; // unix ms
+  gasPrice: bigint;
+}
+
+export interface GasForecast {
+  chain: string;
+  current: bigint;
+  predicted: bigint; // smoothed level plus trend, `horizon` from now
+  lower: bigint; // lower percentile band
+  upper: bigint; // upper percentile band
+  horizon: number; // milliseconds
+  confidence: number; // 0-1, grows with sample count
+  sampleCount: number;
+}
+
+export interface SendRecommendation {
+  action: 'send_now' | 'wait';
+  expectedSavings: number; // fraction of current price, 0-1
+  expectedWait: number; // milliseconds until a cheaper window (0 for send_now)
+  forecast: GasForecast;
+}
+
+export interface GasForecasterOptions {
+  window?: number; // milliseconds of history kept per chain
+  alpha?: number; // EWMA smoothing factor, 0-1
+  beta?: number; // trend smoothing factor, 0-1
+  lowerPercentile?: number;
+  upperPercentile?: number;
+  minSamples?: number;
+  maxSamples?: number;
+}
+
+export class GasForecaster {
+  private series: Map<string, GasSample[]> = new Map();
+  private window: number;
+  private alpha: number;
+  private beta: number;
+  private lowerPercentile: number;
+  private upperPercentile: number;
+  private minSamples: number;
+  private maxSamples: number;
+
+  constructor(options: GasForecasterOptions = {}) {
+    const envWindow = Number(process.env.GAS_PREDICTION_WINDOW);
+
+    this.window = options.window ?? (envWindow > 0 ? envWindow * 1000 : 300000);
+    this.alpha = options.alpha ?? 0.3;
+    this.beta = options.beta ?? 0.1;
+    this.lowerPercentile = options.lowerPercentile ?? 0.1;
+    this.upperPercentile = options.upperPercentile ?? 0.9;
+    this.minSamples = options.minSamples ?? 5;
+    this.maxSamples = options.maxSamples ?? 1000;
+  }
+
+  /**
+   * Record an observed gas price (ignored unless newer than the last sample,
+   * so re-reading an unchanged snapshot does not weight it twice)
+   */
+  recordSample(chain: string, gasPrice: bigint, timestamp: number = Date.now()): void {
+    const samples = this.series.get(chain) || [];
+    if (samples.length > 0 && timestamp <= samples[samples.length - 1].timestamp) return;
+
+    samples.push({ timestamp, gasPrice });
+    this.prune(samples, timestamp);
+    this.series.set(chain, samples);
+  }
+
+  /**
+   * Predict gas price `horizon` milliseconds from `now`
+   *
+   * Samples older than the window (measured from `now`) are dropped first,
+   * so a chain that stopped reporting has no forecast.
+   */
+  forecast(chain: string, horizon: number = this.window / 5, now: number = Date.now()): GasForecast | null {
+    const samples = this.series.get(chain);
+    if (!samples) return null;
+
+    this.prune(samples, now);
+    if (samples.length === 0) {
+      this.series.delete(chain);
+      return null;
+    }
+
+    const prices = samples.map(s => Number(s.gasPrice));
+
+    // Holt's linear smoothing: level per sample, trend per millisecond
+    let level = prices[0];
+    let trend = 0;
+    for (let i = 1; i < prices.length; i++) {
+      const elapsed = samples[i].timestamp - samples[i - 1].timestamp;
+      const previous = level;
+      level = this.alpha * prices[i] + (1 - this.alpha) * (level + trend * elapsed);
+      trend = this.beta * ((level - previous) / elapsed) + (1 - this.beta) * trend;
+    }
+
+    const last = samples[samples.length - 1];
+    const ahead = Math.max(0, now - last.timestamp) + horizon;
+    const sorted = [...prices].sort((a, b) => a - b);
+
+    return {
+      chain,
+      current: last.gasPrice,
+      predicted: BigInt(Math.round(Math.max(0, level + trend * ahead))),
+      lower: BigInt(Math.round(this.percentile(sorted, this.lowerPercentile))),
+      upper: BigInt(Math.round(this.percentile(sorted, this.upperPercentile))),
+      horizon,
+      confidence: Math.min(1.0, samples.length / (this.minSamples * 4)),
+      sampleCount: samples.length
+    };
+  }
+
+  /**
+   * Recommend sending now or waiting for a cheaper window
+   *
+   * Waits only when the current price sits meaningfully above the
+   * forecast and the window shows cheaper prices occur often enough to
+   * be reached within `maxWait`.
+   */
+  recommend(
+    chain: string,
+    options: { minSavings?: number; maxWait?: number; now?: number } = {}
+  ): SendRecommendation | null {
+    const maxWait = options.maxWait ?? this.window;
+    const forecast = this.forecast(chain, Math.min(maxWait, this.window / 5), options.now);
+    if (!forecast) return null;
+
+    const minSavings = options.minSavings ?? 0.1;
+    const sendNow: SendRecommendation = {
+      action: 'send_now',
+      expectedSavings: 0,
+      expectedWait: 0,
+      forecast
+    };
+
+    if (forecast.sampleCount < this.minSamples || forecast.current === 0n) {
+      return sendNow;
+    }
+
+    const current = Number(forecast.current);
+    const target = Math.min(Number(forecast.predicted), current);
+    const savings = (current - target) / current;
+    if (savings < minSavings) return sendNow;
+
+    // Expected wait: sample interval divided by how often price was at/below target
+    const samples = this.series.get(chain)!;
+    const cheap = samples.filter(s => Number(s.gasPrice) <= target).length;
+    const span = samples[samples.length - 1].timestamp - samples[0].timestamp;
+    const interval = span / Math.max(1, samples.length - 1);
+    const expectedWait = cheap > 0 ? interval / (cheap / samples.length) : Infinity;
+
+    if (expectedWait > maxWait) return sendNow;
+
+    return {
+      action: 'wait',
+      expectedSavings: savings,
+      expectedWait,
+      forecast
+    };
+  }
+
+  /**
+   * Get raw samples for chain
+   */
+  getSamples(chain: string): GasSample[] {
+    return [...(this.series.get(chain) || [])];
+  }
+
+  /**
+   * Drop samples outside the window or over the size cap
+   */
+  private prune(samples: GasSample[], now: number): void {
+    const cutoff = now - this.window;
+    let drop = 0;
+    while (drop < samples.length && samples[drop].timestamp < cutoff) {
+      drop++;
+    }
+    drop = Math.max(drop, samples.length - this.maxSamples);
+    if (drop > 0) {
+      samples.splice(0, drop);
+    }
+  }
+
+  /**
+   * Linear-interpolated percentile of sorted values
+   */
+  private percentile(sorted: number[], p: number): number {
+    if (sorted.length === 1) return sorted[0];
+    const rank = p * (sorted.length - 1);
+    const low = Math.floor(rank);
+    const high = Math.ceil(rank);
+    return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Model Artifacts
+ *
+ * Versioned JSON files for trained reputation models: feature schema,
+ * normalization stats, weights and training metadata, sealed with a
+ * content hash. Checkpoints are artifacts written into a directory during
+ * training, named so they sort chronologically.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { Standardization } from './reputation-model';
+
+export const MODEL_ARTIFACT_FORMAT = 'shadowos-reputation-model';
+export const MODEL_ARTIFACT_VERSION = 1;
+
+export interface TrainingMetadata {
+  trainedAt: number; // ms since epoch
+  samples: number;
+  epochs: number; // epochs completed
+  loss: number;
+  hyperparameters: Record<string, number>;
+}
+
+export interface ModelArtifact {
+  format: typeof MODEL_ARTIFACT_FORMAT;
+  version: number;
+  modelType: string;
+  features: string[]; // feature schema, in model input order
+  normalization: Standardization;
+  weights: unknown; // model-specific parameters
+  metadata: TrainingMetadata;
+  hash: string; // sha256 (hex) of every other field, canonically serialized
+}
+
+export interface CheckpointInfo {
+  id: string;
+  path: string;
+  createdAt: number; // ms since epoch
+  epoch: number;
+}
+
+/**
+ * Seal artifact fields with their content hash
+ */
+export function createArtifact(fields: Omit<ModelArtifact, 'format' | 'version' | 'hash'>): ModelArtifact {
+  const unsealed = { format: MODEL_ARTIFACT_FORMAT, version: MODEL_ARTIFACT_VERSION, ...fields } as const;
+  return { ...unsealed, hash: artifactHash(unsealed) };
+}
+
+/**
+ * Validate a parsed artifact against the format, its hash and the expected feature schema
+ */
+export function verifyArtifact(raw: unknown, features: string[], source: string = 'model artifact'): ModelArtifact {
+  const artifact = raw as Partial<ModelArtifact> | null;
+  if (!artifact || typeof artifact !== 'object' || artifact.format !== MODEL_ARTIFACT_FORMAT) {
+    throw new Error(`${source} is not a ${MODEL_ARTIFACT_FORMAT} artifact`);
+  }
+  if (artifact.version !== MODEL_ARTIFACT_VERSION) {
+    throw new Error(`${source} has artifact version ${artifact.version}; this build reads version ${MODEL_ARTIFACT_VERSION}`);
+  }
+
+  const { hash, ...unsealed } = artifact;
+  if (typeof hash !== 'string' || hash !== artifactHash(unsealed)) {
+    throw new Error(`${source} failed its content hash check (corrupted or edited)`);
+  }
+
+  const schema = Array.isArray(artifact.features) ? artifact.features : [];
+  if (schema.length !== features.length || schema.some((name, i) => name !== features[i])) {
+    throw new Error(
+      `${source} was trained on features [${schema.join(', ')}], ` +
+        `but this learner uses [${features.join(', ')}]; retrain the model for the current schema`
+    );
+  }
+
+  return artifact as ModelArtifact;
+}
+
+/**
+ * Write artifact as JSON (via a temp file, so readers never see a partial file)
+ */
+export function writeArtifact(path: string, artifact: ModelArtifact): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const temp = `${path}.tmp`;
+  writeFileSync(temp, JSON.stringify(artifact, null, 2));
+  renameSync(temp, path);
+}
+
+/**
+ * Read and verify an artifact file
+ */
+export function readArtifact(path: string, features: string[]): ModelArtifact {
+  return verifyArtifact(JSON.parse(readFileSync(path, 'utf8')), features, `Model artifact ${path}`);
+}
+
+/**
+ * Write a checkpoint and prune all but the newest `keep`
+ */
+export function writeCheckpoint(dir: string, artifact: ModelArtifact, epoch: number, keep: number): CheckpointInfo {
+  const createdAt = Date.now();
+  const id = `checkpoint-${String(createdAt).padStart(15, '0')}-${String(epoch).padStart(6, '0')}`;
+  const path = join(dir, `${id}.json`);
+  writeArtifact(path, artifact);
+
+  const checkpoints = listCheckpoints(dir);
+  for (const old of checkpoints.slice(0, Math.max(0, checkpoints.length - keep))) {
+    unlinkSync(old.path);
+  }
+
+  return { id, path, createdAt, epoch };
+}
+
+/**
+ * Checkpoints in a directory, oldest first
+ */
+export function listCheckpoints(dir: string): CheckpointInfo[] {
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .map(name => /^(checkpoint-(\d+)-(\d+))\.json$/.exec(name))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => ({
+      id: match[1],
+      path: join(dir, `${match[1]}.json`),
+      createdAt: Number(match[2]),
+      epoch: Number(match[3])
+    }))
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Content hash over canonical JSON (sorted keys)
+ */
+function artifactHash(fields: object): string {
+  return bytesToHex(sha256(utf8ToBytes(canonicalJson(fields))));
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,158 @@
+/**
+ * Pattern Store
+ *
+ * Incremental per-pseudonym payment statistics: running mean and variance
+ * of amounts and inter-payment intervals, plus per-chain counts. Nothing
+ * is kept per payment, so updates and lookups cost the same however long
+ * a pseudonym has been active. Idle pseudonyms expire after a TTL and the
+ * least recently active are evicted beyond a global cap.
+ */
+
+export interface PatternStoreOptions {
+  ttl?: number; // milliseconds of inactivity before a pseudonym is forgotten
+  maxPseudonyms?: number; // pseudonyms kept (least recently active evicted)
+}
+
+export interface PatternSnapshot {
+  count: number;
+  amountMean: number;
+  amountVariance: number; // population variance
+  intervalCount: number;
+  intervalMean: number; // milliseconds
+  intervalVariance: number; // population variance, ms^2
+  chains: Map<string, number>; // chain -> payments
+  firstSeen: number; // payment timestamp, ms
+  lastSeen: number; // payment timestamp, ms
+}
+
+export interface PatternPayment {
+  amount: bigint;
+  timestamp: bigint;
+  chain: string;
+}
+
+export class PatternStore {
+  private ttl: number;
+  private maxPseudonyms: number;
+  private patterns: Map<string, PatternStats> = new Map(); // least recently active first
+
+  constructor(options: PatternStoreOptions = {}) {
+    this.ttl = options.ttl ?? 30 * 24 * 60 * 60 * 1000; // 30 days
+    this.maxPseudonyms = options.maxPseudonyms ?? 100000;
+  }
+
+  /**
+   * Fold payment into the pseudonym's running statistics
+   */
+  record(key: string, payment: PatternPayment): void {
+    const time = Number(payment.timestamp);
+    const amount = Number(payment.amount);
+    let stats = this.patterns.get(key);
+
+    if (stats && this.expired(stats, time)) {
+      stats = undefined;
+    }
+
+    if (!stats) {
+      stats = {
+        count: 0,
+        amount: { n: 0, mean: 0, m2: 0 },
+        interval: { n: 0, mean: 0, m2: 0 },
+        chains: new Map(),
+        firstSeen: time,
+        lastSeen: time,
+        lastTimestamp: time
+      };
+    } else {
+      welford(stats.interval, time - stats.lastTimestamp);
+    }
+
+    stats.count++;
+    welford(stats.amount, amount);
+    stats.chains.set(payment.chain, (stats.chains.get(payment.chain) || 0) + 1);
+    stats.lastTimestamp = time;
+    stats.lastSeen = Math.max(stats.lastSeen, time);
+
+    // Re-insert so map order tracks activity
+    this.patterns.delete(key);
+    this.patterns.set(key, stats);
+
+    this.prune(time);
+  }
+
+  /**
+   * Statistics for a pseudonym, undefined if unknown or expired at now
+   */
+  get(key: string, now?: number): PatternSnapshot | undefined {
+    const stats = this.patterns.get(key);
+    if (!stats) return undefined;
+
+    if (now !== undefined && this.expired(stats, now)) {
+      this.patterns.delete(key);
+      return undefined;
+    }
+
+    return {
+      count: stats.count,
+      amountMean: stats.amount.mean,
+      amountVariance: stats.amount.n > 0 ? stats.amount.m2 / stats.amount.n : 0,
+      intervalCount: stats.interval.n,
+      intervalMean: stats.interval.mean,
+      intervalVariance: stats.interval.n > 0 ? stats.interval.m2 / stats.interval.n : 0,
+      chains: new Map(stats.chains),
+      firstSeen: stats.firstSeen,
+      lastSeen: stats.lastSeen
+    };
+  }
+
+  /**
+   * Drop pseudonyms idle past the TTL and any beyond the cap
+   */
+  prune(now: number): void {
+    for (const [key, stats] of this.patterns) {
+      if (!this.expired(stats, now)) break;
+      this.patterns.delete(key);
+    }
+
+    while (this.patterns.size > this.maxPseudonyms) {
+      this.patterns.delete(this.patterns.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Number of pseudonyms tracked
+   */
+  size(): number {
+    return this.patterns.size;
+  }
+
+  private expired(stats: PatternStats, now: number): boolean {
+    return now - stats.lastSeen > this.ttl;
+  }
+}
+
+/**
+ * Welford update of a running mean and sum of squared deviations
+ */
+function welford(stats: RunningStats, value: number): void {
+  stats.n++;
+  const delta = value - stats.mean;
+  stats.mean += delta / stats.n;
+  stats.m2 += delta * (value - stats.mean);
+}
+
+interface RunningStats {
+  n: number;
+  mean: number;
+  m2: number;
+}
+
+interface PatternStats {
+  count: number;
+  amount: RunningStats;
+  interval: RunningStats;
+  chains: Map<string, number>;
+  firstSeen: number;
+  lastSeen: number;
+  lastTimestamp: number; // most recent payment recorded, for the next interval
+}
@@ -5,86 +5,493 @@
  * based on network conditions, gas fees, and privacy requirements
  */
 
+import { ChainMetrics, ChainMetricsProvider } from "./chain-metrics";
+import { ChainRegistry } from "./chain-registry";
+import { BridgeGraph, BridgePath } from "./bridge-graph";
+import { FeeEstimate, FeeModel, PriceSource } from "./fee-model";
+import { GasForecaster, SendRecommendation } from "./gas-forecaster";
+import { RouteLedger, RouteOutcome } from "./route-ledger";
+import { BanditOptions, RouteBandit } from "./route-bandit";
+import {
+  OptimizationMode,
+  ScoringWeights,
+  WeightedRouteScorer,
+  isOptimizationMode,
+  routeCostUsd,
+} from "./route-scoring";
+import {
+  DEFAULT_DENOMINATIONS,
+  DEFAULT_MAX_LEGS,
+  DEFAULT_SPLIT_THRESHOLD,
+  SplitLeg,
+  SplitRoute,
+  SplitRoutingOptions,
+  splitAmount,
+} from "./payment-splitter";
+
 export interface PaymentRoute {
   chain: string;
-  estimatedGas: bigint;
+  estimatedGas: bigint; // gas units (EVM) or compute units (SVM), not a price
+  fee?: FeeEstimate; // real cost in native token and USD (registered chains)
   privacyScore: number;
   successRate: number;
   estimatedTime: number; // milliseconds
+  metricsStale?: boolean; // built on metrics older than maxMetricsAge
+  sendRecommendation?: SendRecommendation; // present when gas prediction is enabled
+  fallback?: boolean; // no route met the constraints; this one violates them
+  constraintViolations?: RouteRejectionReason[];
+  sourceChain?: string; // where funds start (set for bridged routes)
+  hops?: RouteHop[]; // bridge hops from sourceChain to chain, in order
+}
+
+export interface RouteHop {
+  from: string;
+  to: string;
+  bridge: string;
+  bridgeFee: bigint; // payment token base units
+  gasFee?: FeeEstimate; // bridge transaction cost on `from`
+  feeUsd: number | null; // bridge fee plus gas, null without prices
+  latency: number; // milliseconds
+  privacyImpact: number; // 0-1
+}
+
+export type RouteRejectionReason =
+  | "below_privacy_threshold"
+  | "over_max_gas_price"
+  | "over_max_cost"
+  | "no_price_data"
+  | "no_bridge_path"
+  | "no_metrics";
+
+export interface RankedRoute {
+  chain: string;
+  route?: PaymentRoute; // absent when the chain has no metrics
+  score: number | null; // weighted total after stale penalty
+  breakdown: ScoringWeights | null; // weighted privacy/success/cost/time terms
+  stalePenalty: number;
+  eligible: boolean;
+  rejectionReason?: RouteRejectionReason;
+}
+
+export interface RouteRanking {
+  candidates: RankedRoute[]; // scored chains best-first, unscored last
+  best: PaymentRoute;
+  fallback: boolean;
+  explored: boolean; // bandit picked a non-greedy eligible route
 }
 
 export interface RoutingOptions {
   amount: bigint;
   targetChain?: string;
   privacyLevel: "low" | "medium" | "high" | "maximum";
-  maxGasPrice?: bigint;
+  maxGasPrice?: bigint; // gwei per gas, EVM chains only
+  maxCostUsd?: number; // total transaction cost cap in USD
   preferredChains?: string[];
+  sourceChain?: string; // where funds sit; enables bridge hops
+  maxHops?: number; // bridge hop limit (default 2)
+  optimizationMode?: OptimizationMode; // defaults to router config
+  weights?: Partial<ScoringWeights>; // custom weight vector on top of mode
+}
+
+export interface RouterConfig {
+  registry?: ChainRegistry; // default: ChainRegistry.fromEnv()
+  metricsProvider?: ChainMetricsProvider;
+  maxMetricsAge?: number; // milliseconds before metrics count as stale
+  stalePenalty?: number; // score penalty for routes on stale metrics
+  refreshBackoff?: number; // milliseconds before routing re-fetches a chain whose fetch failed (default maxMetricsAge)
+  optimizationMode?: OptimizationMode; // default: ROUTING_OPTIMIZATION_MODE or balanced
+  gasForecaster?: GasForecaster | false; // default enabled unless GAS_PREDICTION_ENABLED=false
+  ledger?: RouteLedger;
+  priceSource?: PriceSource; // USD pricing for fee estimates
+  bridges?: BridgeGraph; // default: DEFAULT_BRIDGES
+  paymentToken?: { symbol: string; decimals: number }; // default USDC, 6 decimals
+  bandit?: BanditOptions; // exploration-aware selection (default: greedy)
 }
 
 export class AIPaymentRouter {
-  private routingHistory: Map<string, PaymentRoute[]> = new Map();
+  private registry: ChainRegistry;
+  private ledger: RouteLedger;
+  private feeModel: FeeModel;
+  private bridges: BridgeGraph;
+  private paymentToken: { symbol: string; decimals: number };
+  private bandit?: RouteBandit;
   private chainMetrics: Map<string, ChainMetrics> = new Map();
+  private metricsProvider?: ChainMetricsProvider;
+  private maxMetricsAge: number;
+  private stalePenalty: number;
+  private refreshBackoff: number;
+  private refreshAttempts: Map<string, number> = new Map(); // chain -> last provider fetch, ms
+  private optimizationMode: OptimizationMode;
+  private gasForecaster?: GasForecaster;
+  private pollTimer?: ReturnType<typeof setInterval>;
+  private unsubscribe?: () => void;
+
+  constructor(config: RouterConfig = {}) {
+    this.registry = config.registry || ChainRegistry.fromEnv();
+    this.metricsProvider = config.metricsProvider;
+    this.maxMetricsAge = config.maxMetricsAge ?? 60000;
+    this.stalePenalty = config.stalePenalty ?? 0.1;
+    this.refreshBackoff = config.refreshBackoff ?? this.maxMetricsAge;
+    this.ledger = config.ledger || new RouteLedger();
+    this.feeModel = new FeeModel(this.registry, config.priceSource);
+    this.bridges = config.bridges || new BridgeGraph();
+    this.paymentToken = config.paymentToken || { symbol: "USDC", decimals: 6 };
+    if (config.bandit && config.bandit.strategy !== "greedy") {
+      this.bandit = new RouteBandit(config.bandit);
+    }
+
+    const envMode = process.env.ROUTING_OPTIMIZATION_MODE;
+    this.optimizationMode =
+      config.optimizationMode ?? (isOptimizationMode(envMode) ? envMode : "balanced");
+
+    if (config.gasForecaster !== false) {
+      this.gasForecaster =
+        config.gasForecaster ||
+        (process.env.GAS_PREDICTION_ENABLED === "false" ? undefined : new GasForecaster());
+    }
 
-  constructor() {
     this.initializeChainMetrics();
+
+    if (this.metricsProvider?.subscribe) {
+      this.unsubscribe = this.metricsProvider.subscribe((chain, metrics) => {
+        this.updateChainMetrics(chain, metrics);
+      });
+    }
   }
 
   /**
    * Find optimal route for stealth payment
    */
   async findOptimalRoute(options: RoutingOptions): Promise<PaymentRoute> {
-    const availableChains = options.preferredChains || [
-      "ethereum",
-      "polygon",
-      "bsc",
-      "arbitrum",
-      "optimism",
-      "avalanche",
-      "solana",
-    ];
+    const ranking = await this.rankRoutes(options);
+    return ranking.best;
+  }
+
+  /**
+   * Rank every candidate chain with its score breakdown
+   *
+   * Filtered chains carry an explicit rejection reason. When nothing
+   * satisfies the constraints, `best` is a fallback flagged with the
+   * constraints it violates.
+   */
+  async rankRoutes(options: RoutingOptions): Promise<RouteRanking> {
+    const candidates = await this.evaluateRoutes(options);
+    const scored = candidates.filter((c) => c.route);
+    const eligible = scored.filter((c) => c.eligible);
+
+    if (eligible.length > 0) {
+      const { index, explored } = this.selectEligible(eligible, options);
+      return { candidates, best: eligible[index].route!, fallback: false, explored };
+    }
+
+    // Fallback to best scoring route, or a default when no chain has metrics
+    const best = scored[0]
+      ? {
+          ...scored[0].route!,
+          fallback: true,
+          constraintViolations: this.getViolations(scored[0].route!, options),
+        }
+      : {
+          ...this.createDefaultRoute(options.targetChain || "ethereum"),
+          fallback: true,
+          constraintViolations: ["no_metrics" as RouteRejectionReason],
+        };
+
+    return { candidates, best, fallback: true, explored: false };
+  }
+
+  /**
+   * Choose among eligible candidates (greedy unless a bandit is configured)
+   *
+   * Exploration only ever picks routes that satisfy the constraints.
+   */
+  private selectEligible(
+    eligible: RankedRoute[],
+    options: RoutingOptions
+  ): { index: number; explored: boolean } {
+    if (!this.bandit) {
+      return { index: 0, explored: false };
+    }
+
+    const successWeight = this.createScorer(options).weights.success;
+    const arms = eligible.map((candidate) => {
+      const chain = candidate.chain;
+      const prior = this.registry.get(chain)?.successRate ?? 0.95;
+      const posterior = this.ledger.successPosterior(chain, options.amount, prior);
+
+      return {
+        score: candidate.score!,
+        successWeight,
+        alpha: posterior.alpha,
+        beta: posterior.beta,
+        pulls: this.ledger.effectiveObservations(chain, options.amount),
+      };
+    });
+
+    return this.bandit.select(arms);
+  }
+
+  /**
+   * Build the scorer for the requested mode and weights
+   */
+  private createScorer(options: RoutingOptions): WeightedRouteScorer {
+    return new WeightedRouteScorer(
+      options.optimizationMode || this.optimizationMode,
+      options.weights
+    );
+  }
+
+  /**
+   * Split payment into common denominations across chains
+   *
+   * Standard-sized legs on different chains blend with typical traffic
+   * instead of exposing one large, easily linked transfer.
+   */
+  async findSplitRoute(options: SplitRoutingOptions): Promise<SplitRoute> {
+    const maxLegs = Math.max(1, options.maxLegs ?? DEFAULT_MAX_LEGS);
+    const threshold = options.splitThreshold ?? DEFAULT_SPLIT_THRESHOLD;
+
+    const parts =
+      options.amount >= threshold
+        ? splitAmount(
+            options.amount,
+            options.denominations || DEFAULT_DENOMINATIONS,
+            maxLegs
+          )
+        : [{ amount: options.amount, standardDenomination: false }];
+
+    // Spread legs round-robin over the best eligible chains
+    const legs: SplitLeg[] = [];
+    for (let i = 0; i < parts.length; i++) {
+      const ranking = await this.rankRoutes({
+        ...options,
+        amount: parts[i].amount,
+      });
+      const eligible = ranking.candidates
+        .filter((c) => c.eligible)
+        .map((c) => c.route!);
+      const route =
+        eligible.length > 0
+          ? eligible[i % Math.min(eligible.length, maxLegs)]
+          : ranking.best;
+
+      legs.push({
+        amount: parts[i].amount,
+        standardDenomination: parts[i].standardDenomination,
+        route,
+      });
+    }
+
+    return {
+      legs,
+      totalAmount: options.amount,
+      totalGas: legs.reduce((sum, leg) => sum + leg.route.estimatedGas, 0n),
+      totalCostUsd: legs.every((leg) => routeCostUsd(leg.route) !== null)
+        ? legs.reduce((sum, leg) => sum + routeCostUsd(leg.route)!, 0)
+        : null,
+      estimatedTime: Math.max(...legs.map((leg) => leg.route.estimatedTime)),
+      chains: Array.from(new Set(legs.map((leg) => leg.route.chain))),
+    };
+  }
+
+  /**
+   * Score every available chain and check it against the constraints
+   *
+   * With a `sourceChain`, each destination is reached over the bridge
+   * graph and keeps its best-scoring path.
+   */
+  private async evaluateRoutes(options: RoutingOptions): Promise<RankedRoute[]> {
+    const availableChains =
+      options.sourceChain && options.targetChain
+        ? [options.targetChain]
+        : options.preferredChains || this.registry.ids();
+
+    // Pull fresh metrics for chains that have gone stale (failed chains
+    // back off and are ranked on their last known metrics meanwhile)
+    if (this.metricsProvider) {
+      const needed = options.sourceChain
+        ? this.registry.ids()
+        : availableChains;
+      const now = Date.now();
+      const due = needed.filter(
+        (chain) =>
+          this.isStale(this.chainMetrics.get(chain)) &&
+          now - (this.refreshAttempts.get(chain) ?? -Infinity) >= this.refreshBackoff
+      );
+      if (due.length > 0) {
+        await this.refreshMetrics(due);
+      }
+    }
 
     // Analyze each chain
     const routes: PaymentRoute[] = [];
+    const unscored: RankedRoute[] = [];
 
     for (const chain of availableChains) {
       const metrics = this.chainMetrics.get(chain);
-      if (!metrics) continue;
+      if (!metrics) {
+        unscored.push({
+          chain,
+          score: null,
+          breakdown: null,
+          stalePenalty: 0,
+          eligible: false,
+          rejectionReason: "no_metrics",
+        });
+        continue;
+      }
 
       // Calculate route score
       const route = await this.calculateRoute(chain, options, metrics);
-      routes.push(route);
+      if (!options.sourceChain) {
+        routes.push(route);
+        continue;
+      }
+
+      // Graph search over bridges from where funds sit
+      const paths = this.bridges.findPaths(
+        options.sourceChain,
+        chain,
+        options.maxHops ?? 2,
+        (c) => this.chainMetrics.has(c)
+      );
+      if (paths.length === 0) {
+        unscored.push({
+          chain,
+          score: null,
+          breakdown: null,
+          stalePenalty: 0,
+          eligible: false,
+          rejectionReason: "no_bridge_path",
+        });
+        continue;
+      }
+
+      for (const path of paths) {
+        routes.push(await this.applyHops(route, options, path));
+      }
     }
 
-    // Sort by optimal score (privacy + success rate - cost)
-    routes.sort((a, b) => {
-      const scoreA =
-        a.privacyScore * 0.4 +
-        a.successRate * 0.4 -
-        (a.estimatedGas > 0n ? Number(a.estimatedGas) / 1e9 : 0) * 0.2;
-      const scoreB =
-        b.privacyScore * 0.4 +
-        b.successRate * 0.4 -
-        (b.estimatedGas > 0n ? Number(b.estimatedGas) / 1e9 : 0) * 0.2;
-      return scoreB - scoreA;
+    // Sort by mode-weighted score, penalizing stale metrics
+    const scores = this.createScorer(options).score(routes);
+    const best = new Map<string, RankedRoute>();
+
+    routes.forEach((route, i) => {
+      const stalePenalty = route.metricsStale ? this.stalePenalty : 0;
+      const violations = this.getViolations(route, options);
+      const candidate: RankedRoute = {
+        chain: route.chain,
+        route,
+        score: scores[i].total - stalePenalty,
+        breakdown: scores[i].terms,
+        stalePenalty,
+        eligible: violations.length === 0,
+        rejectionReason: violations[0],
+      };
+
+      // Keep one path per destination: eligible first, then highest score
+      const current = best.get(route.chain);
+      if (
+        !current ||
+        (candidate.eligible && !current.eligible) ||
+        (candidate.eligible === current.eligible && candidate.score! > current.score!)
+      ) {
+        best.set(route.chain, candidate);
+      }
     });
 
+    const ranked = Array.from(best.values());
+    ranked.sort((a, b) => b.score! - a.score!);
+
+    return [...ranked, ...unscored];
+  }
+
+  /**
+   * Extend a destination route with bridge hops
+   *
+   * Each hop adds its latency, multiplies in its success rate and erodes
+   * privacy by its impact.
+   */
+  private async applyHops(
+    route: PaymentRoute,
+    options: RoutingOptions,
+    path: BridgePath
+  ): Promise<PaymentRoute> {
+    const hops: RouteHop[] = [];
+
+    for (const edge of path) {
+      const bridgeFee =
+        (options.amount * BigInt(Math.round(edge.feeBps))) / 10000n + edge.fixedFee;
+      const gasFee = this.registry.has(edge.from)
+        ? await this.estimateFee(edge.from, edge.gasUnits)
+        : undefined;
+      const bridgeFeeUsd = await this.feeModel.toUsd(
+        bridgeFee,
+        this.paymentToken.symbol,
+        this.paymentToken.decimals
+      );
+
+      hops.push({
+        from: edge.from,
+        to: edge.to,
+        bridge: edge.bridge,
+        bridgeFee,
+        gasFee,
+        feeUsd:
+          bridgeFeeUsd !== null && gasFee?.usdCost != null
+            ? bridgeFeeUsd + gasFee.usdCost
+            : null,
+        latency: edge.latency,
+        privacyImpact: edge.privacyImpact,
+      });
+    }
+
+    return {
+      ...route,
+      sourceChain: options.sourceChain,
+      hops,
+      estimatedTime: route.estimatedTime + hops.reduce((sum, h) => sum + h.latency, 0),
+      privacyScore: path.reduce((score, e) => score * (1 - e.privacyImpact), route.privacyScore),
+      successRate: path.reduce((rate, e) => rate * e.successRate, route.successRate),
+    };
+  }
+
+  /**
+   * Check route against privacy level, gas price and cost constraints
+   */
+  private getViolations(
+    route: PaymentRoute,
+    options: RoutingOptions
+  ): RouteRejectionReason[] {
+    const violations: RouteRejectionReason[] = [];
+
     // Filter by privacy level requirement
-    const minPrivacyScore = this.getPrivacyScore(options.privacyLevel);
-    const filteredRoutes = routes.filter(
-      (r) => r.privacyScore >= minPrivacyScore
-    );
+    if (route.privacyScore < this.getPrivacyScore(options.privacyLevel)) {
+      violations.push("below_privacy_threshold");
+    }
+
+    // Filter by max gas price (gwei) if specified
+    const fee = route.fee;
+    if (
+      options.maxGasPrice &&
+      fee &&
+      this.registry.get(route.chain)?.family === "evm" &&
+      fee.baseFee + fee.priorityFee > options.maxGasPrice * 1_000_000_000n
+    ) {
+      violations.push("over_max_gas_price");
+    }
 
-    // Filter by max gas price if specified
-    const finalRoutes = options.maxGasPrice
-      ? filteredRoutes.filter((r) => r.estimatedGas <= options.maxGasPrice!)
-      : filteredRoutes;
+    // Filter by max USD cost (bridge hops included) if specified
+    if (options.maxCostUsd !== undefined) {
+      const costUsd = routeCostUsd(route);
+      if (costUsd === null) {
+        violations.push("no_price_data");
+      } else if (costUsd > options.maxCostUsd) {
+        violations.push("over_max_cost");
+      }
+    }
 
-    // Return best route or fallback to first available
-    return (
-      finalRoutes[0] ||
-      routes[0] ||
-      this.createDefaultRoute(options.targetChain || "ethereum")
-    );
+    return violations;
   }
 
   /**
@@ -108,14 +515,22 @@ export class AIPaymentRouter {
     const successRate = this.getSuccessRate(chain, options.amount);
 
     // Estimate transaction time
-    const estimatedTime = this.estimateTime(chain, metrics);
+    const estimatedTime = this.estimateTime(chain, metrics, options.amount);
+
+    // Price the gas (registered chains only)
+    const fee = this.registry.has(chain)
+      ? await this.estimateFee(chain, estimatedGas)
+      : undefined;
 
     return {
       chain,
       estimatedGas,
+      fee,
       privacyScore,
       successRate,
       estimatedTime,
+      metricsStale: this.isStale(metrics),
+      sendRecommendation: this.gasForecaster?.recommend(chain) || undefined,
     };
   }
 
@@ -123,40 +538,22 @@ export class AIPaymentRouter {
    * Estimate gas for transaction
    */
   private estimateGas(chain: string, amount: bigint): bigint {
-    const baseGas: Record<string, bigint> = {
-      ethereum: 21000n,
-      polygon: 21000n,
-      bsc: 21000n,
-      arbitrum: 21000n,
-      optimism: 21000n,
-      avalanche: 21000n,
-      solana: 5000n,
-    };
-
-    const base = baseGas[chain] || 21000n;
+    const base = this.registry.get(chain)?.baseGas || 21000n;
 
     // Add complexity based on amount (larger amounts may need more gas)
     const complexityMultiplier = amount > 1000000n ? 1.2 : 1.0;
+    const prior = BigInt(Math.floor(Number(base) * complexityMultiplier));
 
-    return BigInt(Math.floor(Number(base) * complexityMultiplier));
+    // Observed gas usage pulls the estimate away from the static prior
+    return this.ledger.gasEstimate(chain, amount, prior);
   }
 
   /**
    * Calculate privacy score for chain
    */
   private calculatePrivacyScore(chain: string, privacyLevel: string): number {
-    // Base privacy scores (0-1 scale)
-    const baseScores: Record<string, number> = {
-      ethereum: 0.7,
-      polygon: 0.6,
-      bsc: 0.5,
-      arbitrum: 0.7,
-      optimism: 0.7,
-      avalanche: 0.6,
-      solana: 0.8,
-    };
-
-    const base = baseScores[chain] || 0.5;
+    // Base privacy score (0-1 scale)
+    const base = this.registry.get(chain)?.privacyScore ?? 0.5;
 
     // Adjust based on privacy level requirement
     const levelMultipliers: Record<string, number> = {
@@ -170,49 +567,32 @@ export class AIPaymentRouter {
   }
 
   /**
-   * Get success rate from historical data
+   * Get success rate from the outcome ledger
    */
   private getSuccessRate(chain: string, amount: bigint): number {
-    const history = this.routingHistory.get(chain) || [];
-
-    if (history.length === 0) {
-      // Default success rates
-      const defaults: Record<string, number> = {
-        ethereum: 0.95,
-        polygon: 0.98,
-        bsc: 0.97,
-        arbitrum: 0.96,
-        optimism: 0.96,
-        avalanche: 0.97,
-        solana: 0.99,
-      };
-      return defaults[chain] || 0.95;
-    }
+    // Registry success rate acts as the prior
+    const prior = this.registry.get(chain)?.successRate ?? 0.95;
 
-    // Calculate average success rate from history
-    const successful = history.filter((r) => r.successRate > 0.9).length;
-    return successful / history.length;
+    return this.ledger.successRate(chain, amount, prior);
   }
 
   /**
    * Estimate transaction time
    */
-  private estimateTime(chain: string, metrics: ChainMetrics): number {
-    // Average block times (milliseconds)
-    const blockTimes: Record<string, number> = {
-      ethereum: 12000,
-      polygon: 2000,
-      bsc: 3000,
-      arbitrum: 1000,
-      optimism: 2000,
-      avalanche: 2000,
-      solana: 400,
-    };
-
-    const blockTime = blockTimes[chain] || 2000;
-    const blocksToConfirm = metrics.avgConfirmationBlocks || 12;
-
-    return blockTime * blocksToConfirm;
+  private estimateTime(
+    chain: string,
+    metrics: ChainMetrics,
+    amount: bigint
+  ): number {
+    // Observed block time wins over the registry average
+    const config = this.registry.get(chain);
+    const blockTime = metrics.blockTime || config?.blockTime || 2000;
+    const blocksToConfirm =
+      metrics.avgConfirmationBlocks || config?.confirmations || 12;
+
+    return Math.round(
+      this.ledger.latencyEstimate(chain, amount, blockTime * blocksToConfirm)
+    );
   }
 
   /**
@@ -232,12 +612,14 @@ export class AIPaymentRouter {
    * Create default route
    */
   private createDefaultRoute(chain: string): PaymentRoute {
+    const config = this.registry.get(chain);
+
     return {
       chain,
-      estimatedGas: 21000n,
-      privacyScore: 0.7,
-      successRate: 0.95,
-      estimatedTime: 12000,
+      estimatedGas: config?.baseGas ?? 21000n,
+      privacyScore: config?.privacyScore ?? 0.7,
+      successRate: config?.successRate ?? 0.95,
+      estimatedTime: config ? config.blockTime * config.confirmations : 12000,
     };
   }
 
@@ -245,45 +627,149 @@ export class AIPaymentRouter {
    * Initialize chain metrics
    */
   private initializeChainMetrics(): void {
-    const chains = [
-      "ethereum",
-      "polygon",
-      "bsc",
-      "arbitrum",
-      "optimism",
-      "avalanche",
-      "solana",
-    ];
-
-    for (const chain of chains) {
-      this.chainMetrics.set(chain, {
-        avgGasPrice: 20n, // gwei
-        avgConfirmationBlocks: 12,
+    // Seeded defaults are placeholders, so they start out stale
+    for (const chain of this.registry.list()) {
+      this.chainMetrics.set(chain.id, {
+        avgGasPrice: chain.defaultGasPrice ?? 20_000_000_000n, // 20 gwei
+        avgConfirmationBlocks: chain.confirmations,
         networkHealth: 0.95,
-        lastUpdated: Date.now(),
+        lastUpdated: 0,
       });
     }
   }
 
   /**
-   * Update routing history (called after successful payment)
+   * Check whether metrics are older than the configured max age
+   */
+  private isStale(metrics?: ChainMetrics): boolean {
+    return !metrics || Date.now() - metrics.lastUpdated > this.maxMetricsAge;
+  }
+
+  /**
+   * Pull metrics from the provider (all provider chains by default)
    */
-  updateHistory(chain: string, route: PaymentRoute): void {
-    const history = this.routingHistory.get(chain) || [];
-    history.push(route);
+  async refreshMetrics(chains?: string[]): Promise<void> {
+    if (!this.metricsProvider) return;
 
-    // Keep only last 100 routes
-    if (history.length > 100) {
-      history.shift();
+    const targets = chains || this.metricsProvider.supportedChains();
+    const attemptedAt = Date.now();
+    for (const chain of targets) {
+      this.refreshAttempts.set(chain, attemptedAt);
     }
 
-    this.routingHistory.set(chain, history);
+    const results = await Promise.all(
+      targets.map(async (chain) => ({
+        chain,
+        metrics: await this.metricsProvider!.fetchMetrics(chain),
+      }))
+    );
+
+    for (const { chain, metrics } of results) {
+      if (metrics) {
+        this.updateChainMetrics(chain, metrics);
+      }
+    }
   }
-}
 
-interface ChainMetrics {
-  avgGasPrice: bigint;
-  avgConfirmationBlocks: number;
-  networkHealth: number;
-  lastUpdated: number;
+  /**
+   * Poll the provider on a fixed interval
+   */
+  startPolling(intervalMs: number = 30000): void {
+    this.stopPolling();
+    this.pollTimer = setInterval(() => {
+      this.refreshMetrics().catch(() => {
+        // Keep last known metrics; staleness tracking flags them
+      });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop polling the provider
+   */
+  stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  /**
+   * Release provider resources
+   */
+  dispose(): void {
+    this.stopPolling();
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  /**
+   * Apply metrics pushed or pulled from a provider
+   */
+  updateChainMetrics(chain: string, metrics: ChainMetrics): void {
+    this.chainMetrics.set(chain, { ...metrics });
+    this.gasForecaster?.recordSample(chain, metrics.avgGasPrice, metrics.lastUpdated);
+  }
+
+  /**
+   * Price gas units on chain at current metrics (native token and USD)
+   *
+   * `dataBytes` is extra data posted with the transaction, which rollups
+   * also pay to publish on their settlement chain.
+   */
+  async estimateFee(chain: string, gasUnits: bigint, dataBytes: number = 0): Promise<FeeEstimate> {
+    return this.feeModel.estimate(chain, gasUnits, (c) => this.chainMetrics.get(c), dataBytes);
+  }
+
+  /**
+   * Gas or compute units for posting `bytes` of transaction data on chain
+   */
+  dataUnits(chain: string, bytes: number): bigint {
+    return this.feeModel.dataUnits(chain, bytes);
+  }
+
+  /**
+   * Whether to send on chain now or wait for a cheaper gas window
+   */
+  getSendRecommendation(chain: string): SendRecommendation | null {
+    return this.gasForecaster?.recommend(chain) || null;
+  }
+
+  /**
+   * Get current metrics for chain
+   */
+  getChainMetrics(chain: string): ChainMetrics | undefined {
+    return this.chainMetrics.get(chain);
+  }
+
+  /**
+   * Record the outcome of a payment sent on a route (success or failure)
+   */
+  recordOutcome(outcome: RouteOutcome): void {
+    this.ledger.record(outcome);
+  }
+
+  /**
+   * Update routing history (called after successful payment)
+   *
+   * @deprecated Use `recordOutcome`, which also takes failures, the actual
+   * gas and latency. Without `amount` the success lands in the smallest
+   * amount bucket.
+   */
+  updateHistory(chain: string, route: PaymentRoute, amount: bigint = 0n): void {
+    this.recordOutcome({ chain, amount, success: true, actualGas: route.estimatedGas });
+  }
+
+  /**
+   * Get the chain registry
+   */
+  getRegistry(): ChainRegistry {
+    return this.registry;
+  }
+
+  /**
+   * Get the outcome ledger backing success, gas and latency estimates
+   */
+  getLedger(): RouteLedger {
+    return this.ledger;
+  }
 }
@@ -0,0 +1,116 @@
+/**
+ * Payment Splitter
+ *
+ * Breaks large payments into common denominations so each leg
+ * blends with typical traffic instead of standing out
+ */
+
+import { PaymentRoute, RoutingOptions } from './payment-optimizer';
+
+export interface SplitRoutingOptions extends RoutingOptions {
+  maxLegs?: number;
+  denominations?: bigint[]; // base units, e.g. 1000000n = 1 USDC
+  splitThreshold?: bigint; // amounts below this stay single-leg
+}
+
+export interface SplitLeg {
+  amount: bigint;
+  standardDenomination: boolean;
+  route: PaymentRoute;
+}
+
+export interface SplitRoute {
+  legs: SplitLeg[];
+  totalAmount: bigint;
+  totalGas: bigint; // gas/compute units summed across legs
+  totalCostUsd: number | null; // null unless every leg has a USD price
+  estimatedTime: number; // worst-case leg completion, milliseconds
+  chains: string[];
+}
+
+export interface SplitAmount {
+  amount: bigint;
+  standardDenomination: boolean;
+}
+
+// Common USDC-sized denominations (6 decimals)
+export const DEFAULT_DENOMINATIONS: bigint[] = [
+  1000000000n, // 1000 USDC
+  500000000n,
+  100000000n,
+  50000000n,
+  10000000n,
+  5000000n,
+  1000000n // 1 USDC
+];
+
+export const DEFAULT_MAX_LEGS = 5;
+export const DEFAULT_SPLIT_THRESHOLD = 100000000n; // 100 USDC
+
+/**
+ * Decompose amount into at most `maxLegs` parts
+ *
+ * Greedy largest-first decomposition; any dust below the smallest
+ * denomination becomes its own leg. When the leg limit is exceeded the
+ * two smallest parts are merged repeatedly, which keeps the large legs
+ * standard and evens out the rest.
+ */
+export function splitAmount(
+  amount: bigint,
+  denominations: bigint[] = DEFAULT_DENOMINATIONS,
+  maxLegs: number = DEFAULT_MAX_LEGS
+): SplitAmount[] {
+  if (amount <= 0n) return [];
+
+  const sorted = denominations.filter(d => d > 0n).sort((a, b) => (a > b ? -1 : a < b ? 1 : 0));
+  const limit = Math.max(1, maxLegs);
+  const standard = new Set(sorted);
+
+  // Far more parts than legs: merging would be slow, split evenly instead
+  const largest = sorted[0] || amount;
+  if (amount / largest > BigInt(limit * 8)) {
+    return evenSplit(amount, sorted[sorted.length - 1] || 1n, limit).map(part => ({
+      amount: part,
+      standardDenomination: standard.has(part)
+    }));
+  }
+
+  const parts: bigint[] = [];
+  let remaining = amount;
+
+  for (const denomination of sorted) {
+    while (remaining >= denomination) {
+      parts.push(denomination);
+      remaining -= denomination;
+    }
+  }
+
+  if (remaining > 0n) {
+    parts.push(remaining);
+  }
+
+  while (parts.length > limit) {
+    parts.sort((a, b) => (a > b ? -1 : a < b ? 1 : 0));
+    const smallest = parts.pop()!;
+    parts[parts.length - 1] += smallest;
+  }
+
+  return parts
+    .sort((a, b) => (a > b ? -1 : a < b ? 1 : 0))
+    .map(part => ({ amount: part, standardDenomination: standard.has(part) }));
+}
+
+/**
+ * Split into `legs` near-equal parts rounded to a unit (last leg takes the rest)
+ */
+function evenSplit(amount: bigint, unit: bigint, legs: number): bigint[] {
+  const share = (amount / BigInt(legs) / unit) * unit;
+  const parts: bigint[] = [];
+
+  for (let i = 0; i < legs - 1; i++) {
+    parts.push(share);
+  }
+  parts.push(amount - share * BigInt(legs - 1));
+
+  return parts.filter(part => part > 0n);
+}
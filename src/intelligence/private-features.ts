@@ -0,0 +1,234 @@
+/**
+ * Privacy-Preserving Feature Store
+ *
+ * Per-pseudonym history kept only as hashed identifiers, bucketed
+ * amounts, coarse time slots and aggregate counts. Features derived from
+ * it mirror the direct (raw) features so the private mode detects the
+ * same behaviors, optionally with differential-privacy noise. Idle
+ * pseudonyms expire after a TTL and the least recently active are evicted
+ * beyond a global cap.
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import { FeatureSet, PaymentData } from './fraud-detector';
+import { mulberry32 } from './random';
+
+export interface PrivateFeatureOptions {
+  timeGranularity?: number; // milliseconds; timestamps are floored to this
+  epsilon?: number; // differential-privacy budget per feature (no noise if unset)
+  maxSlots?: number; // coarse time slots kept per pseudonym
+  seed?: number; // deterministic noise for tests
+  ttl?: number; // milliseconds of inactivity before a pseudonym is forgotten
+  maxPseudonyms?: number; // pseudonyms kept (least recently active evicted)
+}
+
+export class PrivateFeatureStore {
+  private histories: Map<string, PrivateHistory> = new Map(); // least recently active first
+  private timeGranularity: number;
+  private epsilon?: number;
+  private maxSlots: number;
+  private ttl: number;
+  private maxPseudonyms: number;
+  private random: () => number;
+
+  constructor(options: PrivateFeatureOptions = {}) {
+    this.timeGranularity = options.timeGranularity ?? 60 * 1000; // 1 minute
+    this.epsilon = options.epsilon;
+    this.maxSlots = options.maxSlots ?? 100;
+    this.ttl = options.ttl ?? 30 * 24 * 60 * 60 * 1000; // 30 days
+    this.maxPseudonyms = options.maxPseudonyms ?? 100000;
+    this.random = mulberry32(options.seed ?? Date.now());
+  }
+
+  /**
+   * Record payment as buckets and coarse time only
+   */
+  record(payment: PaymentData): void {
+    const key = PrivateFeatureStore.hashPseudonym(payment.pseudonym);
+    const time = this.coarseTime(payment.timestamp);
+    let history = this.histories.get(key);
+
+    if (!history || this.expired(history, time)) {
+      history = {
+        count: 0,
+        bucketCounts: new Map<number, number>(),
+        slots: [],
+        chains: new Set<string>(),
+        lastSeen: time
+      };
+    }
+
+    const bucket = PrivateFeatureStore.amountBucket(payment.amount);
+    history.count++;
+    history.bucketCounts.set(bucket, (history.bucketCounts.get(bucket) || 0) + 1);
+    history.chains.add(payment.chain);
+
+    history.slots.push(time);
+    history.slots.sort((a, b) => a - b);
+    if (history.slots.length > this.maxSlots) {
+      history.slots.shift();
+    }
+    history.lastSeen = Math.max(history.lastSeen, time);
+
+    // Re-insert so map order tracks activity
+    this.histories.delete(key);
+    this.histories.set(key, history);
+
+    this.prune(time);
+  }
+
+  /**
+   * Extract features for payment from the private history
+   */
+  extract(payment: PaymentData): FeatureSet {
+    const history = this.histories.get(PrivateFeatureStore.hashPseudonym(payment.pseudonym));
+    const amountCategory = categorizeAmount(payment.amount);
+
+    if (!history || history.count === 0 || this.expired(history, this.coarseTime(payment.timestamp))) {
+      return {
+        amountCategory,
+        timePattern: 0,
+        chainPattern: 1,
+        frequency: 0,
+        amountDeviation: 0
+      };
+    }
+
+    const noisyCount = Math.max(0, history.count + this.noise(1));
+    const chainCount = history.chains.has(payment.chain) ? history.chains.size : history.chains.size + 1;
+
+    return {
+      amountCategory,
+      timePattern: this.timeRegularity(history.slots),
+      chainPattern: chainCount,
+      frequency: Math.min(1.0, noisyCount / 10),
+      amountDeviation: this.bucketDeviation(history, payment.amount)
+    };
+  }
+
+  /**
+   * Drop pseudonyms idle past the TTL and any beyond the cap
+   */
+  prune(now: number): void {
+    for (const [key, history] of this.histories) {
+      if (!this.expired(history, now)) break;
+      this.histories.delete(key);
+    }
+
+    while (this.histories.size > this.maxPseudonyms) {
+      this.histories.delete(this.histories.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Number of pseudonyms tracked
+   */
+  size(): number {
+    return this.histories.size;
+  }
+
+  /**
+   * Hash pseudonym into the store key
+   */
+  static hashPseudonym(pseudonym: Uint8Array): string {
+    return Array.from(sha256(pseudonym))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  /**
+   * Half-decade amount bucket (floor(2 * log10(amount)))
+   */
+  static amountBucket(amount: bigint): number {
+    if (amount <= 0n) return 0;
+    const digits = amount.toString().length;
+    // log10 from the leading digits keeps precision for large bigints
+    const lead = Number(amount.toString().slice(0, 15));
+    const log = Math.log10(lead) + (digits - Math.min(digits, 15));
+    return Math.floor(2 * log);
+  }
+
+  /**
+   * Geometric midpoint of a half-decade bucket
+   */
+  static bucketMidpoint(bucket: number): number {
+    return Math.pow(10, (bucket + 0.5) / 2);
+  }
+
+  /**
+   * Relative deviation of amount's bucket from the history's mean bucket amount
+   */
+  private bucketDeviation(history: PrivateHistory, amount: bigint): number {
+    let total = 0;
+    for (const [bucket, count] of history.bucketCounts) {
+      total += PrivateFeatureStore.bucketMidpoint(bucket) * count;
+    }
+
+    const avg = total / history.count;
+    const noisyAvg = Math.max(1, avg + this.noise(avg / history.count));
+    const current = PrivateFeatureStore.bucketMidpoint(PrivateFeatureStore.amountBucket(amount));
+
+    return Math.min(1.0, Math.abs(current - noisyAvg) / noisyAvg);
+  }
+
+  /**
+   * Regular (1) vs irregular (0) timing over coarse slots
+   */
+  private timeRegularity(slots: number[]): number {
+    if (slots.length < 2) return 0;
+
+    const intervals: number[] = [];
+    for (let i = 1; i < slots.length; i++) {
+      intervals.push(slots[i] - slots[i - 1]);
+    }
+
+    const avgInterval = intervals.reduce((a, b) => a + b, 0) / intervals.length;
+    const variance = intervals.reduce((sum, interval) => {
+      return sum + Math.pow(interval - avgInterval, 2);
+    }, 0) / intervals.length;
+
+    return variance < Math.pow(avgInterval * 0.3, 2) ? 1 : 0;
+  }
+
+  private expired(history: PrivateHistory, now: number): boolean {
+    return now - history.lastSeen > this.ttl;
+  }
+
+  /**
+   * Floor timestamp to the configured granularity
+   */
+  private coarseTime(timestamp: bigint): number {
+    const ms = Number(timestamp);
+    return Math.floor(ms / this.timeGranularity) * this.timeGranularity;
+  }
+
+  /**
+   * Laplace noise for a query with given sensitivity (0 when DP is off)
+   */
+  private noise(sensitivity: number): number {
+    if (!this.epsilon || this.epsilon <= 0) return 0;
+
+    const scale = sensitivity / this.epsilon;
+    const u = Math.max(this.random(), Number.EPSILON) - 0.5;
+    return -scale * Math.sign(u) * Math.log(1 - 2 * Math.abs(u));
+  }
+}
+
+/**
+ * Categorize amount (same coarse categories as direct features)
+ */
+export function categorizeAmount(amount: bigint): number {
+  if (amount < 1000n) return 0;
+  if (amount < 10000n) return 1;
+  if (amount < 100000n) return 2;
+  if (amount < 1000000n) return 3;
+  return 4;
+}
+
+interface PrivateHistory {
+  count: number;
+  bucketCounts: Map<number, number>;
+  slots: number[];
+  chains: Set<string>;
+  lastSeen: number; // coarse time of the newest payment, ms
+}
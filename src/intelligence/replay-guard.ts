@@ -0,0 +1,193 @@
+/**
+ * Replay Guard
+ *
+ * Detects reused payment commitments and double-submitted payments
+ * (same pseudonym, stealth address and amount) within a window. An exact
+ * recent set answers for recent traffic; a rotating Bloom filter keeps a
+ * compact memory of the rest of the window once the exact set is full.
+ * Time comes from payment timestamps, like the velocity windows.
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, concatBytes, utf8ToBytes } from '@noble/hashes/utils';
+
+export interface ReplayGuardOptions {
+  window?: number; // milliseconds a commitment or payment is remembered
+  expectedItems?: number; // per Bloom generation
+  falsePositiveRate?: number; // per Bloom generation
+  maxExact?: number; // entries in the exact recent set
+}
+
+export type ReplayMatch = 'exact' | 'probable' | false;
+
+export interface ReplayCheck {
+  commitment: ReplayMatch; // commitment seen before
+  payment: ReplayMatch; // (pseudonym, stealth address, amount) seen before
+}
+
+export interface ReplayCandidate {
+  pseudonym: Uint8Array;
+  amount: bigint;
+  timestamp: bigint;
+  commitment?: Uint8Array;
+  stealthAddress?: Uint8Array;
+}
+
+export class ReplayGuard {
+  private window: number;
+  private maxExact: number;
+  private bloom: RotatingBloomFilter;
+  private exact: Map<string, number> = new Map(); // key -> timestamp, insertion order
+  private evictedUntil: number = -Infinity; // newest timestamp dropped from the exact set for space
+
+  constructor(options: ReplayGuardOptions = {}) {
+    this.window = options.window ?? 24 * 60 * 60 * 1000;
+    this.maxExact = options.maxExact ?? 100000;
+    this.bloom = new RotatingBloomFilter(
+      this.window,
+      options.expectedItems ?? 100000,
+      options.falsePositiveRate ?? 1e-4
+    );
+  }
+
+  /**
+   * Reject placeholder commitments (all zero bytes)
+   */
+  static assertCommitment(commitment: Uint8Array): void {
+    if (commitment.length === 0 || commitment.every(b => b === 0)) {
+      throw new Error('Payment commitment is an all-zero placeholder; a real commitment is required');
+    }
+  }
+
+  /**
+   * Check a payment against what has been recorded
+   */
+  check(payment: ReplayCandidate): ReplayCheck {
+    const time = Number(payment.timestamp);
+    const keys = this.keys(payment);
+
+    return {
+      commitment: keys.commitment ? this.lookup(keys.commitment, time) : false,
+      payment: keys.payment ? this.lookup(keys.payment, time) : false
+    };
+  }
+
+  /**
+   * Remember a payment's commitment and payment tuple
+   */
+  record(payment: ReplayCandidate): void {
+    const time = Number(payment.timestamp);
+    const keys = this.keys(payment);
+
+    for (const key of [keys.commitment, keys.payment]) {
+      if (!key) continue;
+
+      this.bloom.add(key, time);
+      this.exact.delete(key);
+      this.exact.set(key, time);
+    }
+
+    while (this.exact.size > this.maxExact) {
+      const [oldest, timestamp] = this.exact.entries().next().value as [string, number];
+      this.exact.delete(oldest);
+      this.evictedUntil = Math.max(this.evictedUntil, timestamp);
+    }
+  }
+
+  private lookup(key: string, time: number): ReplayMatch {
+    const seen = this.exact.get(key);
+    if (seen !== undefined && Math.abs(time - seen) <= this.window) {
+      return 'exact';
+    }
+
+    // The exact set is authoritative unless it dropped in-window entries
+    if (this.evictedUntil >= time - this.window && this.bloom.has(key, time)) {
+      return 'probable';
+    }
+
+    return false;
+  }
+
+  private keys(payment: ReplayCandidate): { commitment?: string; payment?: string } {
+    return {
+      commitment: payment.commitment
+        ? 'c:' + bytesToHex(sha256(payment.commitment))
+        : undefined,
+      // Stealth addresses are single-use, so a repeat tuple is a double submission
+      payment: payment.stealthAddress
+        ? 'p:' + bytesToHex(sha256(concatBytes(
+          sha256(payment.pseudonym),
+          sha256(payment.stealthAddress),
+          utf8ToBytes(payment.amount.toString())
+        )))
+        : undefined
+    };
+  }
+}
+
+/**
+ * Two Bloom filter generations, each covering one window of timestamps
+ */
+class RotatingBloomFilter {
+  private bits: number;
+  private hashes: number;
+  private current: Uint8Array;
+  private previous: Uint8Array;
+  private generation: number = -Infinity;
+
+  constructor(private window: number, expectedItems: number, falsePositiveRate: number) {
+    this.bits = Math.max(64, Math.ceil((-expectedItems * Math.log(falsePositiveRate)) / (Math.LN2 * Math.LN2)));
+    this.hashes = Math.max(1, Math.round((this.bits / expectedItems) * Math.LN2));
+    this.current = new Uint8Array(Math.ceil(this.bits / 8));
+    this.previous = new Uint8Array(Math.ceil(this.bits / 8));
+  }
+
+  add(key: string, time: number): void {
+    this.rotate(time);
+    for (const index of this.indexes(key)) {
+      this.current[index >> 3] |= 1 << (index & 7);
+    }
+  }
+
+  /**
+   * Whether key may have been added in a generation still live at time
+   * (read-only: only add() rotates, so a lookup with a future timestamp
+   * cannot wipe the filter)
+   */
+  has(key: string, time: number): boolean {
+    const ahead = Math.floor(time / this.window) - this.generation;
+    if (ahead > 1) return false;
+
+    const indexes = this.indexes(key);
+    const inFilter = (filter: Uint8Array) => indexes.every(i => (filter[i >> 3] & (1 << (i & 7))) !== 0);
+    return inFilter(this.current) || (ahead < 1 && inFilter(this.previous));
+  }
+
+  /**
+   * Advance generations to the one containing time (never backwards)
+   */
+  private rotate(time: number): void {
+    const generation = Math.floor(time / this.window);
+    if (generation <= this.generation) return;
+
+    this.previous = generation === this.generation + 1 ? this.current : new Uint8Array(this.current.length);
+    this.current = new Uint8Array(this.current.length);
+    this.generation = generation;
+  }
+
+  /**
+   * Bit positions via double hashing of the key digest
+   */
+  private indexes(key: string): number[] {
+    const digest = sha256(utf8ToBytes(key));
+    const view = new DataView(digest.buffer, digest.byteOffset, digest.byteLength);
+    const h1 = view.getUint32(0);
+    const h2 = view.getUint32(4) | 1;
+
+    const indexes: number[] = [];
+    for (let i = 0; i < this.hashes; i++) {
+      indexes.push(((h1 + Math.imul(i, h2)) >>> 0) % this.bits);
+    }
+    return indexes;
+  }
+}
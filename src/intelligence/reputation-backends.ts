@@ -0,0 +1,563 @@
+/**
+ * Reputation Model Backends
+ *
+ * Alternatives to the logistic model behind the same interface: a small
+ * neural network, a random forest and gradient-boosted regression trees.
+ * All are plain TypeScript on the CPU, deterministic given a seed, and
+ * serialize to JSON through exportState(). createReputationBackend()
+ * picks one by type (ML_MODEL_TYPE).
+ */
+
+import {
+  ModelType,
+  ModelState,
+  EpochCallback,
+  ReputationFeatures,
+  ReputationModelBackend,
+  Standardization,
+  TrainingOptions,
+  TrainingSummary,
+  LogisticReputationModel,
+  REPUTATION_FEATURES,
+  featureVector,
+  fitStandardization,
+  checkStandardization,
+  validateTrainingSet,
+  isVector,
+  sigmoid,
+  shuffle
+} from './reputation-model';
+import { mulberry32 } from './random';
+
+export const MODEL_TYPES: ModelType[] = ['logistic_regression', 'neural_network', 'random_forest', 'gradient_boosting'];
+
+export interface MlpOptions extends TrainingOptions {
+  hiddenUnits?: number; // tanh units in the hidden layer
+}
+
+export interface TreeOptions {
+  maxDepth?: number;
+  minLeafSize?: number; // samples required on each side of a split
+  seed?: number;
+}
+
+export interface RandomForestOptions extends TreeOptions {
+  trees?: number;
+  featureFraction?: number; // share of features tried at each split, 0-1
+}
+
+export interface GradientBoostingOptions extends TreeOptions {
+  learningRate?: number; // shrinkage, default AI_LEARNING_RATE or 0.1
+  epochs?: number; // boosting rounds, default AI_EPOCHS or 100
+  subsample?: number; // share of samples each round's tree sees, 0-1
+}
+
+export type ReputationBackendOptions = MlpOptions & RandomForestOptions & GradientBoostingOptions;
+
+/**
+ * Create a backend by type (default ML_MODEL_TYPE, else logistic regression)
+ */
+export function createReputationBackend(
+  type?: ModelType,
+  options: ReputationBackendOptions = {}
+): ReputationModelBackend {
+  const selected = type ?? ((process.env.ML_MODEL_TYPE || 'logistic_regression') as ModelType);
+
+  switch (selected) {
+    case 'logistic_regression':
+      return new LogisticReputationModel(options);
+    case 'neural_network':
+      return new MlpReputationModel(options);
+    case 'random_forest':
+      return new RandomForestReputationModel(options);
+    case 'gradient_boosting':
+      return new GradientBoostingReputationModel(options);
+    default:
+      throw new Error(`Unknown reputation model type '${selected}' (expected one of: ${MODEL_TYPES.join(', ')})`);
+  }
+}
+
+/**
+ * One hidden tanh layer, sigmoid output, cross-entropy on soft targets
+ */
+export class MlpReputationModel implements ReputationModelBackend {
+  readonly type: ModelType = 'neural_network';
+  private hiddenUnits: number;
+  private learningRate: number;
+  private batchSize: number;
+  private epochs: number;
+  private l2: number;
+  private random: () => number;
+  private scaling?: Standardization;
+  private w1: number[][] = []; // hidden x input
+  private b1: number[] = [];
+  private w2: number[] = [];
+  private b2: number = 0;
+
+  constructor(options: MlpOptions = {}) {
+    const envRate = Number(process.env.AI_LEARNING_RATE);
+    const envBatch = Number(process.env.AI_BATCH_SIZE);
+    const envEpochs = Number(process.env.AI_EPOCHS);
+
+    this.hiddenUnits = Math.max(1, Math.floor(options.hiddenUnits ?? 16));
+    this.learningRate = options.learningRate ?? (envRate > 0 ? envRate : 0.1);
+    this.batchSize = Math.max(1, Math.floor(options.batchSize ?? (envBatch > 0 ? envBatch : 32)));
+    this.epochs = Math.max(1, Math.floor(options.epochs ?? (envEpochs > 0 ? envEpochs : 100)));
+    this.l2 = options.l2 ?? 1e-3;
+    this.random = mulberry32(options.seed ?? Date.now());
+  }
+
+  fit(samples: ReputationFeatures[], labels: number[], onEpoch?: EpochCallback): TrainingSummary {
+    validateTrainingSet(samples, labels);
+
+    const raw = samples.map(featureVector);
+    this.scaling = fitStandardization(raw);
+    const inputs = raw.map(x => standardize(x, this.scaling!));
+    const targets = labels.map(label => label / 100);
+    this.initialize(inputs[0].length);
+
+    const order = inputs.map((_, i) => i);
+    for (let epoch = 0; epoch < this.epochs; epoch++) {
+      shuffle(order, this.random);
+
+      for (let start = 0; start < order.length; start += this.batchSize) {
+        this.step(order.slice(start, start + this.batchSize), inputs, targets);
+      }
+
+      onEpoch?.(epoch + 1, this.loss(inputs, targets));
+    }
+
+    return { samples: samples.length, epochs: this.epochs, loss: this.loss(inputs, targets) };
+  }
+
+  predict(features: ReputationFeatures): number {
+    if (!this.scaling) {
+      throw new Error('Reputation model has not been trained');
+    }
+    return 100 * this.forward(standardize(featureVector(features), this.scaling)).output;
+  }
+
+  isTrained(): boolean {
+    return this.scaling !== undefined;
+  }
+
+  exportState(): ModelState {
+    if (!this.scaling) {
+      throw new Error('Reputation model has not been trained');
+    }
+    return {
+      normalization: { mean: [...this.scaling.mean], std: [...this.scaling.std] },
+      parameters: { w1: this.w1.map(row => [...row]), b1: [...this.b1], w2: [...this.w2], b2: this.b2 }
+    };
+  }
+
+  importState(state: ModelState): void {
+    const { w1, b1, w2, b2 } = (state.parameters ?? {}) as { w1?: number[][]; b1?: number[]; w2?: number[]; b2?: number };
+    const hidden = Array.isArray(w1) ? w1.length : 0;
+    if (
+      hidden === 0 ||
+      !w1!.every(row => isVector(row, REPUTATION_FEATURES.length)) ||
+      !isVector(b1, hidden) ||
+      !isVector(w2, hidden) ||
+      !Number.isFinite(b2)
+    ) {
+      throw new Error('Neural network state must have matching hidden-layer weights and biases');
+    }
+
+    this.scaling = checkStandardization(state.normalization);
+    this.hiddenUnits = hidden;
+    this.w1 = w1!.map(row => [...row]);
+    this.b1 = [...b1!];
+    this.w2 = [...w2!];
+    this.b2 = b2!;
+  }
+
+  getHyperparameters(): Record<string, number> {
+    return {
+      hiddenUnits: this.hiddenUnits,
+      learningRate: this.learningRate,
+      batchSize: this.batchSize,
+      epochs: this.epochs,
+      l2: this.l2
+    };
+  }
+
+  /**
+   * Glorot-uniform weights, zero biases
+   */
+  private initialize(inputs: number): void {
+    const limit1 = Math.sqrt(6 / (inputs + this.hiddenUnits));
+    const limit2 = Math.sqrt(6 / (this.hiddenUnits + 1));
+
+    this.w1 = Array.from({ length: this.hiddenUnits }, () =>
+      Array.from({ length: inputs }, () => (2 * this.random() - 1) * limit1)
+    );
+    this.b1 = new Array(this.hiddenUnits).fill(0);
+    this.w2 = Array.from({ length: this.hiddenUnits }, () => (2 * this.random() - 1) * limit2);
+    this.b2 = 0;
+  }
+
+  private forward(x: number[]): { hidden: number[]; output: number } {
+    const hidden = this.w1.map((row, h) => Math.tanh(row.reduce((z, w, j) => z + w * x[j], this.b1[h])));
+    const output = sigmoid(hidden.reduce((z, value, h) => z + this.w2[h] * value, this.b2));
+    return { hidden, output };
+  }
+
+  /**
+   * One mini-batch of backpropagation
+   */
+  private step(batch: number[], inputs: number[][], targets: number[]): void {
+    const gw1 = this.w1.map(row => new Array(row.length).fill(0));
+    const gb1 = new Array(this.hiddenUnits).fill(0);
+    const gw2 = new Array(this.hiddenUnits).fill(0);
+    let gb2 = 0;
+
+    for (const i of batch) {
+      const x = inputs[i];
+      const { hidden, output } = this.forward(x);
+      const delta = output - targets[i];
+
+      gb2 += delta;
+      for (let h = 0; h < this.hiddenUnits; h++) {
+        gw2[h] += delta * hidden[h];
+        const back = delta * this.w2[h] * (1 - hidden[h] * hidden[h]);
+        gb1[h] += back;
+        for (let j = 0; j < x.length; j++) {
+          gw1[h][j] += back * x[j];
+        }
+      }
+    }
+
+    const rate = this.learningRate / batch.length;
+    for (let h = 0; h < this.hiddenUnits; h++) {
+      for (let j = 0; j < this.w1[h].length; j++) {
+        this.w1[h][j] -= rate * gw1[h][j] + this.learningRate * this.l2 * this.w1[h][j];
+      }
+      this.b1[h] -= rate * gb1[h];
+      this.w2[h] -= rate * gw2[h] + this.learningRate * this.l2 * this.w2[h];
+    }
+    this.b2 -= rate * gb2;
+  }
+
+  private loss(inputs: number[][], targets: number[]): number {
+    return inputs.reduce((sum, x, i) => {
+      const p = Math.min(1 - 1e-12, Math.max(1e-12, this.forward(x).output));
+      return sum - (targets[i] * Math.log(p) + (1 - targets[i]) * Math.log(1 - p));
+    }, 0) / inputs.length;
+  }
+}
+
+/**
+ * Bagged regression trees with random feature subsets at each split
+ */
+export class RandomForestReputationModel implements ReputationModelBackend {
+  readonly type: ModelType = 'random_forest';
+  private treeCount: number;
+  private maxDepth: number;
+  private minLeafSize: number;
+  private featureFraction: number;
+  private random: () => number;
+  private scaling?: Standardization; // trees split on raw values; kept for the artifact
+  private trees: TreeNode[] = [];
+
+  constructor(options: RandomForestOptions = {}) {
+    this.treeCount = Math.max(1, Math.floor(options.trees ?? 50));
+    this.maxDepth = Math.max(1, Math.floor(options.maxDepth ?? 6));
+    this.minLeafSize = Math.max(1, Math.floor(options.minLeafSize ?? 3));
+    this.featureFraction = Math.min(1, Math.max(0, options.featureFraction ?? 0.5));
+    this.random = mulberry32(options.seed ?? Date.now());
+  }
+
+  fit(samples: ReputationFeatures[], labels: number[], onEpoch?: EpochCallback): TrainingSummary {
+    validateTrainingSet(samples, labels);
+
+    const rows = samples.map(featureVector);
+    const targets = labels.map(label => label / 100);
+    const splitFeatures = Math.max(1, Math.round(this.featureFraction * rows[0].length));
+    this.scaling = fitStandardization(rows);
+    this.trees = [];
+
+    for (let t = 0; t < this.treeCount; t++) {
+      // Bootstrap sample
+      const indexes = rows.map(() => Math.floor(this.random() * rows.length));
+      this.trees.push(
+        buildTree(rows, targets, indexes, 0, {
+          maxDepth: this.maxDepth,
+          minLeafSize: this.minLeafSize,
+          splitFeatures,
+          random: this.random
+        })
+      );
+
+      onEpoch?.(t + 1, this.loss(rows, targets));
+    }
+
+    return { samples: samples.length, epochs: this.treeCount, loss: this.loss(rows, targets) };
+  }
+
+  predict(features: ReputationFeatures): number {
+    if (!this.scaling) {
+      throw new Error('Reputation model has not been trained');
+    }
+    return 100 * this.output(featureVector(features));
+  }
+
+  isTrained(): boolean {
+    return this.scaling !== undefined;
+  }
+
+  exportState(): ModelState {
+    if (!this.scaling) {
+      throw new Error('Reputation model has not been trained');
+    }
+    return {
+      normalization: { mean: [...this.scaling.mean], std: [...this.scaling.std] },
+      parameters: { trees: this.trees }
+    };
+  }
+
+  importState(state: ModelState): void {
+    const { trees } = (state.parameters ?? {}) as { trees?: unknown[] };
+    if (!Array.isArray(trees) || trees.length === 0 || !trees.every(tree => isTreeNode(tree))) {
+      throw new Error('Random forest state must have a non-empty list of valid trees');
+    }
+
+    this.scaling = checkStandardization(state.normalization);
+    this.trees = trees as TreeNode[];
+    this.treeCount = trees.length;
+  }
+
+  getHyperparameters(): Record<string, number> {
+    return {
+      trees: this.treeCount,
+      maxDepth: this.maxDepth,
+      minLeafSize: this.minLeafSize,
+      featureFraction: this.featureFraction
+    };
+  }
+
+  private output(x: number[]): number {
+    const total = this.trees.reduce((sum, tree) => sum + predictTree(tree, x), 0);
+    return Math.min(1, Math.max(0, total / this.trees.length));
+  }
+
+  private loss(rows: number[][], targets: number[]): number {
+    return rows.reduce((sum, x, i) => sum + Math.pow(this.output(x) - targets[i], 2), 0) / rows.length;
+  }
+}
+
+/**
+ * Squared-error gradient boosting over shallow regression trees
+ */
+export class GradientBoostingReputationModel implements ReputationModelBackend {
+  readonly type: ModelType = 'gradient_boosting';
+  private learningRate: number;
+  private epochs: number;
+  private maxDepth: number;
+  private minLeafSize: number;
+  private subsample: number;
+  private random: () => number;
+  private scaling?: Standardization; // trees split on raw values; kept for the artifact
+  private base: number = 0;
+  private trees: TreeNode[] = [];
+
+  constructor(options: GradientBoostingOptions = {}) {
+    const envRate = Number(process.env.AI_LEARNING_RATE);
+    const envEpochs = Number(process.env.AI_EPOCHS);
+
+    this.learningRate = options.learningRate ?? (envRate > 0 ? envRate : 0.1);
+    this.epochs = Math.max(1, Math.floor(options.epochs ?? (envEpochs > 0 ? envEpochs : 100)));
+    this.maxDepth = Math.max(1, Math.floor(options.maxDepth ?? 3));
+    this.minLeafSize = Math.max(1, Math.floor(options.minLeafSize ?? 3));
+    this.subsample = Math.min(1, Math.max(0, options.subsample ?? 0.8));
+    this.random = mulberry32(options.seed ?? Date.now());
+  }
+
+  fit(samples: ReputationFeatures[], labels: number[], onEpoch?: EpochCallback): TrainingSummary {
+    validateTrainingSet(samples, labels);
+
+    const rows = samples.map(featureVector);
+    const targets = labels.map(label => label / 100);
+    this.scaling = fitStandardization(rows);
+    this.base = targets.reduce((a, b) => a + b, 0) / targets.length;
+    this.trees = [];
+
+    const current = rows.map(() => this.base);
+    const all = rows.map((_, i) => i);
+    const sampleSize = Math.max(1, Math.round(this.subsample * rows.length));
+
+    for (let round = 0; round < this.epochs; round++) {
+      const residuals = targets.map((y, i) => y - current[i]);
+      shuffle(all, this.random);
+
+      const tree = buildTree(rows, residuals, all.slice(0, sampleSize), 0, {
+        maxDepth: this.maxDepth,
+        minLeafSize: this.minLeafSize,
+        splitFeatures: rows[0].length,
+        random: this.random
+      });
+      this.trees.push(tree);
+      rows.forEach((x, i) => (current[i] += this.learningRate * predictTree(tree, x)));
+
+      onEpoch?.(round + 1, this.loss(current, targets));
+    }
+
+    return { samples: samples.length, epochs: this.epochs, loss: this.loss(current, targets) };
+  }
+
+  predict(features: ReputationFeatures): number {
+    if (!this.scaling) {
+      throw new Error('Reputation model has not been trained');
+    }
+
+    const x = featureVector(features);
+    const raw = this.trees.reduce((sum, tree) => sum + this.learningRate * predictTree(tree, x), this.base);
+    return 100 * Math.min(1, Math.max(0, raw));
+  }
+
+  isTrained(): boolean {
+    return this.scaling !== undefined;
+  }
+
+  exportState(): ModelState {
+    if (!this.scaling) {
+      throw new Error('Reputation model has not been trained');
+    }
+    return {
+      normalization: { mean: [...this.scaling.mean], std: [...this.scaling.std] },
+      parameters: { base: this.base, learningRate: this.learningRate, trees: this.trees }
+    };
+  }
+
+  importState(state: ModelState): void {
+    const { base, learningRate, trees } = (state.parameters ?? {}) as {
+      base?: number;
+      learningRate?: number;
+      trees?: unknown[];
+    };
+    if (!Number.isFinite(base) || !Number.isFinite(learningRate) || !Array.isArray(trees) || !trees.every(tree => isTreeNode(tree))) {
+      throw new Error('Gradient boosting state must have a base score, learning rate and valid trees');
+    }
+
+    this.scaling = checkStandardization(state.normalization);
+    this.base = base!;
+    this.learningRate = learningRate!;
+    this.trees = trees as TreeNode[];
+    this.epochs = trees.length;
+  }
+
+  getHyperparameters(): Record<string, number> {
+    return {
+      learningRate: this.learningRate,
+      epochs: this.epochs,
+      maxDepth: this.maxDepth,
+      minLeafSize: this.minLeafSize,
+      subsample: this.subsample
+    };
+  }
+
+  private loss(predictions: number[], targets: number[]): number {
+    return predictions.reduce((sum, p, i) => sum + Math.pow(Math.min(1, Math.max(0, p)) - targets[i], 2), 0) / predictions.length;
+  }
+}
+
+function standardize(x: number[], scaling: Standardization): number[] {
+  return x.map((value, j) => (value - scaling.mean[j]) / scaling.std[j]);
+}
+
+/**
+ * Grow a regression tree on rows[indexes] by greedy variance reduction
+ */
+function buildTree(
+  rows: number[][],
+  targets: number[],
+  indexes: number[],
+  depth: number,
+  options: TreeBuildOptions
+): TreeNode {
+  const value = indexes.reduce((sum, i) => sum + targets[i], 0) / indexes.length;
+  if (depth >= options.maxDepth || indexes.length < 2 * options.minLeafSize) {
+    return { value };
+  }
+
+  // Features tried at this split (all, or a random subset for forests)
+  const candidates = rows[0].map((_, j) => j);
+  shuffle(candidates, options.random);
+
+  let best: { feature: number; threshold: number; score: number } | undefined;
+  const total = indexes.reduce((sum, i) => sum + targets[i], 0);
+  const baseline = (total * total) / indexes.length;
+
+  for (const feature of candidates.slice(0, options.splitFeatures)) {
+    const sorted = [...indexes].sort((a, b) => rows[a][feature] - rows[b][feature]);
+    let left = 0;
+
+    for (let k = 0; k < sorted.length - 1; k++) {
+      left += targets[sorted[k]];
+      const leftCount = k + 1;
+      const rightCount = sorted.length - leftCount;
+      const here = rows[sorted[k]][feature];
+      const next = rows[sorted[k + 1]][feature];
+
+      if (leftCount < options.minLeafSize || rightCount < options.minLeafSize || here === next) continue;
+
+      // Maximizing this minimizes the children's summed squared error
+      const right = total - left;
+      const score = (left * left) / leftCount + (right * right) / rightCount;
+      if (score > baseline + 1e-12 && (!best || score > best.score)) {
+        best = { feature, threshold: (here + next) / 2, score };
+      }
+    }
+  }
+
+  if (!best) {
+    return { value };
+  }
+
+  const leftIndexes = indexes.filter(i => rows[i][best!.feature] <= best!.threshold);
+  const rightIndexes = indexes.filter(i => rows[i][best!.feature] > best!.threshold);
+
+  return {
+    feature: best.feature,
+    threshold: best.threshold,
+    left: buildTree(rows, targets, leftIndexes, depth + 1, options),
+    right: buildTree(rows, targets, rightIndexes, depth + 1, options)
+  };
+}
+
+function predictTree(node: TreeNode, x: number[]): number {
+  while (!('value' in node)) {
+    node = x[node.feature] <= node.threshold ? node.left : node.right;
+  }
+  return node.value;
+}
+
+/**
+ * Structural check for trees read from saved state
+ */
+function isTreeNode(node: unknown, depth: number = 0): boolean {
+  if (!node || typeof node !== 'object' || depth > 64) return false;
+
+  const candidate = node as Record<string, unknown>;
+  if ('value' in candidate) {
+    return Number.isFinite(candidate.value);
+  }
+
+  return (
+    Number.isInteger(candidate.feature) &&
+    (candidate.feature as number) >= 0 &&
+    (candidate.feature as number) < REPUTATION_FEATURES.length &&
+    Number.isFinite(candidate.threshold) &&
+    isTreeNode(candidate.left, depth + 1) &&
+    isTreeNode(candidate.right, depth + 1)
+  );
+}
+
+type TreeNode = { value: number } | { feature: number; threshold: number; left: TreeNode; right: TreeNode };
+
+interface TreeBuildOptions {
+  maxDepth: number;
+  minLeafSize: number;
+  splitFeatures: number; // features tried per split
+  random: () => number;
+}
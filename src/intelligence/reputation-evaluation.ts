@@ -0,0 +1,173 @@
+/**
+ * Reputation Model Evaluation
+ *
+ * Holdout and k-fold evaluation of the reputation learner on labeled
+ * samples. Reports score error (MAE, RMSE, R²) and a calibration curve
+ * checking whether prediction confidence matches how often the score
+ * lands within a tolerance of the label.
+ */
+
+import { shuffle } from './reputation-model';
+
+export interface EvaluationOptions {
+  validationSplit?: number; // holdout share, default TRAINING_VALIDATION_SPLIT or 0.2
+  folds?: number; // k-fold cross-validation when >= 2 (overrides the holdout split)
+  tolerance?: number; // score points counted as a hit for calibration
+  calibrationBins?: number; // equal-width confidence bins
+  seed?: number; // deterministic shuffling
+}
+
+export interface RegressionMetrics {
+  count: number;
+  mae: number;
+  rmse: number;
+  r2: number | null; // null when labels have no variance
+}
+
+export interface CalibrationBin {
+  minConfidence: number;
+  maxConfidence: number;
+  count: number;
+  meanConfidence: number;
+  hitRate: number; // share of predictions within tolerance of the label
+  mae: number;
+}
+
+export interface CalibrationReport {
+  tolerance: number;
+  bins: CalibrationBin[]; // non-empty bins, lowest confidence first
+  expectedCalibrationError: number; // count-weighted |meanConfidence - hitRate|
+}
+
+export interface EvaluationReport {
+  model: string; // model type evaluated
+  features: string[]; // feature schema
+  method: 'holdout' | 'kfold';
+  folds: number;
+  samples: number;
+  metrics: RegressionMetrics; // pooled over all validation predictions
+  foldMetrics: RegressionMetrics[];
+  calibration: CalibrationReport;
+  evaluatedAt: number; // ms since epoch
+}
+
+export interface ScoredPrediction {
+  label: number; // 0-100
+  score: number; // 0-100
+  confidence: number; // 0-1
+}
+
+/**
+ * MAE, RMSE and R² of scores against labels
+ */
+export function regressionMetrics(predictions: ScoredPrediction[]): RegressionMetrics {
+  const count = predictions.length;
+  if (count === 0) {
+    return { count: 0, mae: 0, rmse: 0, r2: null };
+  }
+
+  const meanLabel = predictions.reduce((sum, p) => sum + p.label, 0) / count;
+  let absolute = 0;
+  let squared = 0;
+  let total = 0;
+
+  for (const p of predictions) {
+    absolute += Math.abs(p.score - p.label);
+    squared += Math.pow(p.score - p.label, 2);
+    total += Math.pow(p.label - meanLabel, 2);
+  }
+
+  return {
+    count,
+    mae: absolute / count,
+    rmse: Math.sqrt(squared / count),
+    r2: total > 0 ? 1 - squared / total : null
+  };
+}
+
+/**
+ * Confidence vs hit rate, in equal-width confidence bins
+ */
+export function calibrationCurve(
+  predictions: ScoredPrediction[],
+  tolerance: number,
+  binCount: number
+): CalibrationReport {
+  validateCalibration(tolerance, binCount);
+
+  const bins: ScoredPrediction[][] = Array.from({ length: binCount }, () => []);
+  for (const p of predictions) {
+    const index = Math.min(binCount - 1, Math.max(0, Math.floor(p.confidence * binCount)));
+    bins[index].push(p);
+  }
+
+  const result: CalibrationBin[] = [];
+  let weightedGap = 0;
+
+  bins.forEach((members, index) => {
+    if (members.length === 0) return;
+
+    const meanConfidence = members.reduce((sum, p) => sum + p.confidence, 0) / members.length;
+    const hitRate = members.filter(p => Math.abs(p.score - p.label) <= tolerance).length / members.length;
+    weightedGap += members.length * Math.abs(meanConfidence - hitRate);
+
+    result.push({
+      minConfidence: index / binCount,
+      maxConfidence: (index + 1) / binCount,
+      count: members.length,
+      meanConfidence,
+      hitRate,
+      mae: members.reduce((sum, p) => sum + Math.abs(p.score - p.label), 0) / members.length
+    });
+  });
+
+  return {
+    tolerance,
+    bins: result,
+    expectedCalibrationError: predictions.length > 0 ? weightedGap / predictions.length : 0
+  };
+}
+
+/**
+ * Check calibration options before any model is trained
+ */
+export function validateCalibration(tolerance: number, binCount: number): void {
+  if (!Number.isInteger(binCount) || binCount < 1) {
+    throw new Error(`Calibration bins must be a positive integer, got ${binCount}`);
+  }
+  if (!(tolerance >= 0)) {
+    throw new Error(`Calibration tolerance must be non-negative, got ${tolerance}`);
+  }
+}
+
+/**
+ * Partition shuffled sample indexes into k folds
+ */
+export function kFolds(size: number, folds: number, random: () => number): number[][] {
+  if (folds < 2 || folds > size) {
+    throw new Error(`Cannot split ${size} samples into ${folds} folds`);
+  }
+
+  const order = shuffled(size, random);
+  const result: number[][] = Array.from({ length: folds }, () => []);
+  order.forEach((index, i) => result[i % folds].push(index));
+  return result;
+}
+
+/**
+ * Shuffled holdout indexes for the validation share
+ */
+export function holdout(size: number, validationSplit: number, random: () => number): number[] {
+  const validation = Math.round(size * validationSplit);
+  if (validationSplit <= 0 || validationSplit >= 1 || validation < 1 || validation >= size) {
+    throw new Error(`Validation split ${validationSplit} leaves no training or validation samples out of ${size}`);
+  }
+
+  return shuffled(size, random).slice(0, validation);
+}
+
+function shuffled(size: number, random: () => number): number[] {
+  const order = Array.from({ length: size }, (_, i) => i);
+  shuffle(order, random);
+  return order;
+}
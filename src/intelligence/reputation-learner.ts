@@ -6,6 +6,33 @@
  */
 
 import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { ChainRegistry } from './chain-registry';
+import { ModelType, ReputationFeatures, ReputationModelBackend, TrainingSummary, REPUTATION_FEATURES } from './reputation-model';
+import { ReputationBackendOptions, createReputationBackend } from './reputation-backends';
+import { ReputationStateStore, ReputationStateOptions, ReputationAggregate } from './reputation-state';
+import {
+  EvaluationOptions,
+  EvaluationReport,
+  RegressionMetrics,
+  ScoredPrediction,
+  regressionMetrics,
+  calibrationCurve,
+  validateCalibration,
+  kFolds,
+  holdout
+} from './reputation-evaluation';
+import {
+  ModelArtifact,
+  TrainingMetadata,
+  CheckpointInfo,
+  createArtifact,
+  readArtifact,
+  writeArtifact,
+  writeCheckpoint,
+  listCheckpoints
+} from './model-artifact';
+import { mulberry32 } from './random';
 
 export interface PaymentPattern {
   pseudonym: Uint8Array;
@@ -19,80 +46,255 @@ export interface ReputationPrediction {
   score: number;
   confidence: number;
   factors: string[];
+  coldStart?: boolean; // no history for this pseudonym; score is the neutral prior
+}
+
+export interface TrainingSample {
+  payments: PaymentPattern[]; // one pseudonym's payment history
+  label: number; // its reputation score, 0-100
 }
 
 export interface TrainingData {
-  payments: PaymentPattern[];
-  labels: number[]; // Reputation scores
+  samples: TrainingSample[];
+}
+
+export interface LearnerConfig {
+  registry?: ChainRegistry; // default: ChainRegistry.fromEnv()
+  modelType?: ModelType; // default ML_MODEL_TYPE, else logistic_regression
+  training?: ReputationBackendOptions; // learning rate, batch size, epochs and backend settings
+  state?: ReputationStateOptions; // decay and limits of per-pseudonym aggregates
+  updateInterval?: number; // ms between recompute runs, default REPUTATION_UPDATE_INTERVAL (seconds)
+  modelPath?: string; // save()/load() artifact, default ML_MODEL_PATH
+  checkpointDir?: string; // default ML_MODEL_CHECKPOINT
+  checkpointEvery?: number; // epochs between training checkpoints (0 = off)
+  keepCheckpoints?: number; // newest checkpoints kept on disk
 }
 
 export class AIReputationLearner {
-  private model: ReputationModel;
-  private trainingData: TrainingData[] = [];
-  private isTrained: boolean = false;
+  private model: ReputationModelBackend;
+  private trainingOptions: ReputationBackendOptions;
+  private registry: ChainRegistry;
+  private state: ReputationStateStore;
+  private updateInterval: number;
+  private recomputeTimer?: ReturnType<typeof setInterval>;
+  private modelPath: string;
+  private checkpointDir: string;
+  private checkpointEvery: number;
+  private keepCheckpoints: number;
+  private metadata?: TrainingMetadata;
+
+  constructor(config: LearnerConfig = {}) {
+    this.trainingOptions = config.training ?? {};
+    this.model = createReputationBackend(config.modelType, this.trainingOptions);
+    this.registry = config.registry || ChainRegistry.fromEnv();
+    const envInterval = Number(process.env.REPUTATION_UPDATE_INTERVAL);
+    this.state = new ReputationStateStore(config.state);
+    this.updateInterval = config.updateInterval ?? (envInterval > 0 ? envInterval * 1000 : 60 * 60 * 1000);
+    this.modelPath = config.modelPath ?? process.env.ML_MODEL_PATH ?? './models/privacy-ml/model.json';
+    this.checkpointDir = config.checkpointDir ?? process.env.ML_MODEL_CHECKPOINT ?? './models/privacy-ml/checkpoints';
+    this.checkpointEvery = config.checkpointEvery ?? 0;
+    this.keepCheckpoints = config.keepCheckpoints ?? 5;
+  }
+
+  /**
+   * Train model on labeled per-pseudonym histories
+   */
+  async train(data: TrainingData): Promise<TrainingSummary> {
+    const features = data.samples.map(sample => this.extractFeatures(sample.payments));
+    const trainedAt = Date.now();
 
-  constructor() {
-    this.model = new ReputationModel();
+    const summary = this.model.fit(features, data.samples.map(sample => sample.label), (epoch, loss) => {
+      if (this.checkpointEvery <= 0 || epoch % this.checkpointEvery !== 0) return;
+
+      this.metadata = this.trainingMetadata(trainedAt, features.length, epoch, loss);
+      writeCheckpoint(this.checkpointDir, this.toArtifact(), epoch, this.keepCheckpoints);
+    });
+
+    this.metadata = this.trainingMetadata(trainedAt, summary.samples, summary.epochs, summary.loss);
+
+    // Always checkpoint the final model, whatever epoch count the backend ran
+    if (this.checkpointEvery > 0 && summary.epochs % this.checkpointEvery !== 0) {
+      writeCheckpoint(this.checkpointDir, this.toArtifact(), summary.epochs, this.keepCheckpoints);
+    }
+    return summary;
   }
 
   /**
-   * Train model on payment history
+   * Write the trained model as a versioned artifact (default ML_MODEL_PATH)
    */
-  async train(data: TrainingData): Promise<void> {
-    this.trainingData.push(data);
-    
-    // Extract features from payments
-    const features = this.extractFeatures(data.payments);
-    
-    // Train simple model (in production, use proper ML library)
-    this.model.train(features, data.labels);
-    
-    this.isTrained = true;
+  save(path: string = this.modelPath): ModelArtifact {
+    const artifact = this.toArtifact();
+    writeArtifact(path, artifact);
+    return artifact;
+  }
+
+  /**
+   * Replace the model with a saved artifact (schema and hash are checked first)
+   */
+  load(path: string = this.modelPath): ModelArtifact {
+    const artifact = readArtifact(path, REPUTATION_FEATURES);
+    this.restore(artifact);
+    return artifact;
+  }
+
+  /**
+   * Training checkpoints on disk, oldest first
+   */
+  listCheckpoints(): CheckpointInfo[] {
+    return listCheckpoints(this.checkpointDir);
+  }
+
+  /**
+   * Roll the model back to a checkpoint (default: the newest)
+   */
+  rollback(checkpointId?: string): ModelArtifact {
+    const checkpoints = this.listCheckpoints();
+    const checkpoint = checkpointId
+      ? checkpoints.find(c => c.id === checkpointId)
+      : checkpoints[checkpoints.length - 1];
+
+    if (!checkpoint) {
+      throw new Error(
+        checkpointId
+          ? `Unknown model checkpoint: ${checkpointId}`
+          : `No model checkpoints in ${this.checkpointDir}`
+      );
+    }
+
+    return this.load(checkpoint.path);
+  }
+
+  /**
+   * Evaluate on held-out samples with fresh models (the trained model is untouched)
+   */
+  async evaluate(data: TrainingData, options: EvaluationOptions = {}): Promise<EvaluationReport> {
+    const envSplit = Number(process.env.TRAINING_VALIDATION_SPLIT);
+    const validationSplit = options.validationSplit ?? (envSplit > 0 && envSplit < 1 ? envSplit : 0.2);
+    const random = mulberry32(options.seed ?? Date.now());
+    const size = data.samples.length;
+    const tolerance = options.tolerance ?? 10;
+    const calibrationBins = options.calibrationBins ?? 10;
+    validateCalibration(tolerance, calibrationBins);
+
+    const kfold = options.folds !== undefined && options.folds >= 2;
+    const folds = kfold
+      ? kFolds(size, options.folds!, random)
+      : [holdout(size, validationSplit, random)];
+
+    const features = data.samples.map(sample => this.extractFeatures(sample.payments));
+    const labels = data.samples.map(sample => sample.label);
+    const pooled: ScoredPrediction[] = [];
+    const foldMetrics: RegressionMetrics[] = [];
+
+    for (const validation of folds) {
+      const held = new Set(validation);
+      const train = features.map((_, i) => i).filter(i => !held.has(i));
+
+      const model = createReputationBackend(this.model.type, this.trainingOptions);
+      model.fit(train.map(i => features[i]), train.map(i => labels[i]));
+
+      const predictions = validation.map(i => ({
+        label: labels[i],
+        score: model.predict(features[i]),
+        confidence: this.calculateConfidence(features[i])
+      }));
+      foldMetrics.push(regressionMetrics(predictions));
+      pooled.push(...predictions);
+    }
+
+    return {
+      model: this.model.type,
+      features: [...REPUTATION_FEATURES],
+      method: kfold ? 'kfold' : 'holdout',
+      folds: folds.length,
+      samples: size,
+      metrics: regressionMetrics(pooled),
+      foldMetrics,
+      calibration: calibrationCurve(pooled, tolerance, calibrationBins),
+      evaluatedAt: Date.now()
+    };
   }
 
   /**
    * Predict reputation for pseudonym
    */
   async predict(pseudonym: Uint8Array, paymentHistory?: PaymentPattern[]): Promise<ReputationPrediction> {
-    if (!this.isTrained && !paymentHistory) {
+    // Explicit history, else the pseudonym's decayed aggregate
+    const aggregate = paymentHistory ? undefined : this.state.get(this.stateKey(pseudonym));
+    if (!paymentHistory && !aggregate) {
+      // Nothing known: say so rather than guess
+      return {
+        score: 50,
+        confidence: 0.1,
+        factors: ['cold_start'],
+        coldStart: true
+      };
+    }
+
+    if (!this.model.isTrained()) {
       // Return default prediction
       return {
         score: 50,
         confidence: 0.5,
-        factors: ['insufficient_data']
+        factors: ['insufficient_data'],
+        coldStart: false
       };
     }
 
-    // Extract features from payment history
-    const features = paymentHistory 
+    const features = paymentHistory
       ? this.extractFeatures(paymentHistory)
-      : this.extractFeaturesFromPseudonym(pseudonym);
-
-    // Predict reputation
-    const prediction = this.model.predict(features);
+      : this.aggregateFeatures(aggregate!);
 
     return {
-      score: prediction.score,
-      confidence: prediction.confidence,
-      factors: this.identifyFactors(features)
+      score: this.model.predict(features),
+      confidence: this.calculateConfidence(features),
+      factors: this.identifyFactors(features),
+      coldStart: false
     };
   }
 
   /**
-   * Learn from new payment patterns
+   * Learn from new payment patterns (folded into per-pseudonym aggregates)
    */
   async learnFromPayments(payments: PaymentPattern[]): Promise<void> {
-    // Extract patterns
-    const patterns = this.identifyPatterns(payments);
-    
-    // Update model with new patterns
-    this.model.update(patterns);
+    for (const payment of payments) {
+      this.state.record(this.stateKey(payment.pseudonym), payment);
+    }
+  }
+
+  /**
+   * Decay all aggregates to now and forget pseudonyms whose activity has faded
+   */
+  recompute(now: number = Date.now()): { pseudonyms: number; forgotten: number } {
+    return this.state.recompute(now);
+  }
+
+  /**
+   * Run recompute() every REPUTATION_UPDATE_INTERVAL
+   *
+   * Not started by the constructor: long-lived learners call this once
+   * after construction. The timer does not keep the process alive.
+   */
+  startRecompute(intervalMs: number = this.updateInterval): void {
+    this.stopRecompute();
+    this.recomputeTimer = setInterval(() => this.recompute(), intervalMs);
+    this.recomputeTimer.unref?.();
+  }
+
+  /**
+   * Stop the recompute job
+   */
+  stopRecompute(): void {
+    if (this.recomputeTimer) {
+      clearInterval(this.recomputeTimer);
+      this.recomputeTimer = undefined;
+    }
   }
 
   /**
    * Extract features from payments
    */
-  private extractFeatures(payments: PaymentPattern[]): FeatureVector {
+  private extractFeatures(payments: PaymentPattern[]): ReputationFeatures {
     if (payments.length === 0) {
       return this.createEmptyFeatures();
     }
@@ -107,13 +309,13 @@ export class AIReputationLearner {
     const paymentCount = payments.length;
     const successRate = successCount / paymentCount;
     
-    // Calculate time patterns
+    // Calculate time patterns (mean gap between consecutive payments)
     const timeSpan = Math.max(...timestamps) - Math.min(...timestamps);
-    const avgInterval = timeSpan > 0 ? timeSpan / paymentCount : 0;
+    const avgInterval = paymentCount > 1 ? timeSpan / (paymentCount - 1) : 0;
 
     // Chain diversity
     const uniqueChains = new Set(payments.map(p => p.chain)).size;
-    const chainDiversity = uniqueChains / 7; // Normalize by max chains
+    const chainDiversity = Math.min(1.0, uniqueChains / Math.max(1, this.registry.size)); // Normalize by supported chains
 
     return {
       paymentCount,
@@ -127,32 +329,20 @@ export class AIReputationLearner {
   }
 
   /**
-   * Extract features from pseudonym (privacy-preserving)
+   * Features from a decayed aggregate (same meaning as extractFeatures)
    */
-  private extractFeaturesFromPseudonym(pseudonym: Uint8Array): FeatureVector {
-    // Hash-based feature extraction (privacy-preserving)
-    const hash = sha256(pseudonym);
-    
-    // Extract features from hash (deterministic but private)
+  private aggregateFeatures(aggregate: ReputationAggregate): ReputationFeatures {
     return {
-      paymentCount: this.hashToNumber(hash, 0, 100),
-      totalAmount: this.hashToNumber(hash, 1, 1000000),
-      avgAmount: this.hashToNumber(hash, 2, 10000),
-      successRate: this.hashToNumber(hash, 3, 100) / 100,
-      avgInterval: this.hashToNumber(hash, 4, 86400),
-      chainDiversity: this.hashToNumber(hash, 5, 100) / 100,
-      recentActivity: this.hashToNumber(hash, 6, 100) / 100
+      paymentCount: aggregate.payments,
+      totalAmount: aggregate.amount,
+      avgAmount: aggregate.amount / aggregate.payments,
+      successRate: aggregate.successes / aggregate.payments,
+      avgInterval: aggregate.intervals > 0 ? aggregate.intervalSum / aggregate.intervals : 0,
+      chainDiversity: Math.min(1.0, aggregate.chains.size / Math.max(1, this.registry.size)),
+      recentActivity: Math.min(1.0, aggregate.recent / 10)
     };
   }
 
-  /**
-   * Convert hash bytes to number
-   */
-  private hashToNumber(hash: Uint8Array, offset: number, max: number): number {
-    const index = offset % hash.length;
-    return (hash[index] / 255) * max;
-  }
-
   /**
    * Calculate recent activity score
    */
@@ -168,70 +358,73 @@ export class AIReputationLearner {
   }
 
   /**
-   * Identify patterns in payments
+   * Identify factors affecting reputation
    */
-  private identifyPatterns(payments: PaymentPattern[]): Pattern[] {
-    const patterns: Pattern[] = [];
+  private identifyFactors(features: ReputationFeatures): string[] {
+    const factors: string[] = [];
 
-    // Pattern: Regular payments
-    if (this.isRegularPattern(payments)) {
-      patterns.push({ type: 'regular', weight: 0.3 });
-    }
+    if (features.paymentCount > 10) factors.push('high_activity');
+    if (features.successRate > 0.95) factors.push('reliable');
+    if (features.chainDiversity > 0.5) factors.push('multi_chain');
+    if (features.recentActivity > 0.7) factors.push('recent_activity');
+    if (features.avgAmount > 100000) factors.push('high_value');
 
-    // Pattern: High-value transactions
-    const avgAmount = payments.reduce((sum, p) => sum + Number(p.amount), 0) / payments.length;
-    if (avgAmount > 1000000) {
-      patterns.push({ type: 'high_value', weight: 0.2 });
-    }
+    return factors.length > 0 ? factors : ['new_user'];
+  }
 
-    // Pattern: Multi-chain usage
-    const chains = new Set(payments.map(p => p.chain));
-    if (chains.size > 2) {
-      patterns.push({ type: 'multi_chain', weight: 0.2 });
+  /**
+   * Current model as an artifact
+   */
+  private toArtifact(): ModelArtifact {
+    if (!this.model.isTrained() || !this.metadata) {
+      throw new Error('Reputation model has not been trained; nothing to save');
     }
 
-    return patterns;
+    const { normalization, parameters } = this.model.exportState();
+    return createArtifact({
+      modelType: this.model.type,
+      features: [...REPUTATION_FEATURES],
+      normalization,
+      weights: parameters,
+      metadata: this.metadata
+    });
   }
 
   /**
-   * Check if payments follow regular pattern
+   * Load artifact parameters into the model
    */
-  private isRegularPattern(payments: PaymentPattern[]): boolean {
-    if (payments.length < 3) return false;
-
-    const intervals: number[] = [];
-    for (let i = 1; i < payments.length; i++) {
-      intervals.push(Number(payments[i].timestamp) - Number(payments[i - 1].timestamp));
+  private restore(artifact: ModelArtifact): void {
+    if (artifact.modelType !== this.model.type) {
+      throw new Error(`Model artifact is a ${artifact.modelType} model; this learner uses ${this.model.type}`);
     }
 
-    const avgInterval = intervals.reduce((a, b) => a + b, 0) / intervals.length;
-    const variance = intervals.reduce((sum, interval) => {
-      return sum + Math.pow(interval - avgInterval, 2);
-    }, 0) / intervals.length;
+    this.model.importState({ normalization: artifact.normalization, parameters: artifact.weights });
+    this.metadata = artifact.metadata;
+  }
 
-    // Low variance = regular pattern
-    return variance < Math.pow(avgInterval * 0.3, 2);
+  private trainingMetadata(trainedAt: number, samples: number, epochs: number, loss: number): TrainingMetadata {
+    return { trainedAt, samples, epochs, loss, hyperparameters: this.model.getHyperparameters() };
   }
 
   /**
-   * Identify factors affecting reputation
+   * Confidence from how much history backs the features
    */
-  private identifyFactors(features: FeatureVector): string[] {
-    const factors: string[] = [];
-
-    if (features.paymentCount > 10) factors.push('high_activity');
-    if (features.successRate > 0.95) factors.push('reliable');
-    if (features.chainDiversity > 0.5) factors.push('multi_chain');
-    if (features.recentActivity > 0.7) factors.push('recent_activity');
-    if (features.avgAmount > 100000) factors.push('high_value');
+  private calculateConfidence(features: ReputationFeatures): number {
+    const dataQuality = features.paymentCount > 0 ? Math.min(1.0, features.paymentCount / 10) : 0;
+    return 0.5 + dataQuality * 0.5;
+  }
 
-    return factors.length > 0 ? factors : ['new_user'];
+  /**
+   * Hashed pseudonym key for stored aggregates
+   */
+  private stateKey(pseudonym: Uint8Array): string {
+    return bytesToHex(sha256(pseudonym));
   }
 
   /**
    * Create empty feature vector
    */
-  private createEmptyFeatures(): FeatureVector {
+  private createEmptyFeatures(): ReputationFeatures {
     return {
       paymentCount: 0,
       totalAmount: 0,
@@ -243,74 +436,3 @@ export class AIReputationLearner {
     };
   }
 }
-
-/**
- * Simple reputation model (replace with proper ML in production)
- */
-class ReputationModel {
-  private weights: Map<string, number> = new Map();
-
-  train(features: FeatureVector, labels: number[]): void {
-    // Simple linear model training
-    // In production, use TensorFlow.js, ML.js, or similar
-    
-    const factors = [
-      'paymentCount',
-      'successRate',
-      'chainDiversity',
-      'recentActivity'
-    ];
-
-    for (const factor of factors) {
-      const value = features[factor as keyof FeatureVector] as number;
-      const avgLabel = labels.reduce((a, b) => a + b, 0) / labels.length;
-      
-      // Simple weight calculation
-      this.weights.set(factor, value > 0 ? avgLabel / value : 0);
-    }
-  }
-
-  predict(features: FeatureVector): { score: number; confidence: number } {
-    let score = 50; // Base score
-    let confidence = 0.5;
-
-    // Calculate weighted score
-    for (const [factor, weight] of this.weights.entries()) {
-      const value = features[factor as keyof FeatureVector] as number;
-      score += value * weight * 10;
-    }
-
-    // Normalize to 0-100
-    score = Math.max(0, Math.min(100, score));
-
-    // Calculate confidence based on data quality
-    const dataQuality = features.paymentCount > 0 ? Math.min(1.0, features.paymentCount / 10) : 0;
-    confidence = 0.5 + dataQuality * 0.5;
-
-    return { score, confidence };
-  }
-
-  update(patterns: Pattern[]): void {
-    // Update model weights based on new patterns
-    for (const pattern of patterns) {
-      const currentWeight = this.weights.get(pattern.type) || 0;
-      this.weights.set(pattern.type, currentWeight + pattern.weight);
-    }
-  }
-}
-
-interface FeatureVector {
-  paymentCount: number;
-  totalAmount: number;
-  avgAmount: number;
-  successRate: number;
-  avgInterval: number;
-  chainDiversity: number;
-  recentActivity: number;
-}
-
-interface Pattern {
-  type: string;
-  weight: number;
-}
-
@@ -0,0 +1,292 @@
+/**
+ * Reputation Model
+ *
+ * Common interface for models mapping per-pseudonym payment features to a
+ * 0-100 reputation score, and the default backend: logistic regression.
+ * Heavy-tailed features are log-scaled, every feature is standardized
+ * with training-set statistics, and weights are fit by mini-batch
+ * gradient descent with L2 regularization.
+ */
+
+import { mulberry32 } from './random';
+
+export interface ReputationFeatures {
+  paymentCount: number;
+  totalAmount: number;
+  avgAmount: number;
+  successRate: number; // 0-1
+  avgInterval: number; // milliseconds
+  chainDiversity: number; // 0-1
+  recentActivity: number; // 0-1
+}
+
+/**
+ * Model input order (the feature schema)
+ */
+export const REPUTATION_FEATURES: (keyof ReputationFeatures)[] = [
+  'paymentCount',
+  'totalAmount',
+  'avgAmount',
+  'successRate',
+  'avgInterval',
+  'chainDiversity',
+  'recentActivity'
+];
+
+// Counts, amounts and intervals span orders of magnitude
+const LOG_SCALED = new Set<keyof ReputationFeatures>(['paymentCount', 'totalAmount', 'avgAmount', 'avgInterval']);
+
+export type ModelType = 'logistic_regression' | 'neural_network' | 'random_forest' | 'gradient_boosting';
+
+export interface TrainingOptions {
+  learningRate?: number; // default AI_LEARNING_RATE or 0.1
+  batchSize?: number; // default AI_BATCH_SIZE or 32
+  epochs?: number; // default AI_EPOCHS or 100
+  l2?: number; // ridge penalty on weights
+  seed?: number; // deterministic shuffling
+}
+
+export interface TrainingSummary {
+  samples: number;
+  epochs: number;
+  loss: number; // training loss after the last epoch (cross-entropy, or squared error for trees)
+}
+
+export interface Standardization {
+  mean: number[];
+  std: number[];
+}
+
+export interface ModelState {
+  normalization: Standardization;
+  parameters: unknown; // backend-specific weights
+}
+
+export type EpochCallback = (epoch: number, loss: number) => void;
+
+/**
+ * Trainable reputation model (pure TypeScript, CPU only)
+ */
+export interface ReputationModelBackend {
+  readonly type: ModelType;
+  fit(samples: ReputationFeatures[], labels: number[], onEpoch?: EpochCallback): TrainingSummary;
+  predict(features: ReputationFeatures): number; // 0-100
+  isTrained(): boolean;
+  exportState(): ModelState;
+  importState(state: ModelState): void;
+  getHyperparameters(): Record<string, number>;
+}
+
+export class LogisticReputationModel implements ReputationModelBackend {
+  readonly type: ModelType = 'logistic_regression';
+  private learningRate: number;
+  private batchSize: number;
+  private epochs: number;
+  private l2: number;
+  private random: () => number;
+  private weights: number[] = [];
+  private bias: number = 0;
+  private scaling?: Standardization;
+
+  constructor(options: TrainingOptions = {}) {
+    const envRate = Number(process.env.AI_LEARNING_RATE);
+    const envBatch = Number(process.env.AI_BATCH_SIZE);
+    const envEpochs = Number(process.env.AI_EPOCHS);
+
+    this.learningRate = options.learningRate ?? (envRate > 0 ? envRate : 0.1);
+    this.batchSize = Math.max(1, Math.floor(options.batchSize ?? (envBatch > 0 ? envBatch : 32)));
+    this.epochs = Math.max(1, Math.floor(options.epochs ?? (envEpochs > 0 ? envEpochs : 100)));
+    this.l2 = options.l2 ?? 1e-3;
+    this.random = mulberry32(options.seed ?? Date.now());
+  }
+
+  /**
+   * Fit weights to labeled samples (labels are 0-100 reputation scores)
+   */
+  fit(samples: ReputationFeatures[], labels: number[], onEpoch?: EpochCallback): TrainingSummary {
+    validateTrainingSet(samples, labels);
+
+    const raw = samples.map(featureVector);
+    this.scaling = fitStandardization(raw);
+    const inputs = raw.map(x => this.standardize(x));
+    const targets = labels.map(label => label / 100);
+
+    this.weights = new Array(REPUTATION_FEATURES.length).fill(0);
+    this.bias = 0;
+    const order = inputs.map((_, i) => i);
+
+    for (let epoch = 0; epoch < this.epochs; epoch++) {
+      shuffle(order, this.random);
+
+      for (let start = 0; start < order.length; start += this.batchSize) {
+        const batch = order.slice(start, start + this.batchSize);
+        const gradient = new Array(this.weights.length).fill(0);
+        let biasGradient = 0;
+
+        for (const i of batch) {
+          // Cross-entropy against soft targets: d/dz = p - y
+          const error = sigmoid(this.logit(inputs[i])) - targets[i];
+          for (let j = 0; j < gradient.length; j++) {
+            gradient[j] += error * inputs[i][j];
+          }
+          biasGradient += error;
+        }
+
+        for (let j = 0; j < this.weights.length; j++) {
+          this.weights[j] -= this.learningRate * (gradient[j] / batch.length + this.l2 * this.weights[j]);
+        }
+        this.bias -= this.learningRate * (biasGradient / batch.length);
+      }
+
+      onEpoch?.(epoch + 1, this.loss(inputs, targets));
+    }
+
+    return { samples: samples.length, epochs: this.epochs, loss: this.loss(inputs, targets) };
+  }
+
+  /**
+   * Predicted reputation score, 0-100
+   */
+  predict(features: ReputationFeatures): number {
+    if (!this.scaling) {
+      throw new Error('Reputation model has not been trained');
+    }
+    return 100 * sigmoid(this.logit(this.standardize(featureVector(features))));
+  }
+
+  /**
+   * Whether fit() has run (or a state was imported)
+   */
+  isTrained(): boolean {
+    return this.scaling !== undefined;
+  }
+
+  /**
+   * Normalization stats and weights, for persistence
+   */
+  exportState(): ModelState {
+    if (!this.scaling) {
+      throw new Error('Reputation model has not been trained');
+    }
+    return {
+      normalization: { mean: [...this.scaling.mean], std: [...this.scaling.std] },
+      parameters: { weights: [...this.weights], bias: this.bias }
+    };
+  }
+
+  /**
+   * Restore a state produced by exportState()
+   */
+  importState(state: ModelState): void {
+    const { weights, bias } = (state.parameters ?? {}) as { weights?: number[]; bias?: number };
+    if (!isVector(weights, REPUTATION_FEATURES.length) || !Number.isFinite(bias)) {
+      throw new Error(`Logistic model state must have ${REPUTATION_FEATURES.length} finite weights and a bias`);
+    }
+
+    this.scaling = checkStandardization(state.normalization);
+    this.weights = [...weights];
+    this.bias = bias!;
+  }
+
+  /**
+   * Training hyperparameters in effect
+   */
+  getHyperparameters(): Record<string, number> {
+    return { learningRate: this.learningRate, batchSize: this.batchSize, epochs: this.epochs, l2: this.l2 };
+  }
+
+  /**
+   * Mean cross-entropy against soft targets
+   */
+  private loss(inputs: number[][], targets: number[]): number {
+    return inputs.reduce((sum, x, i) => {
+      const p = Math.min(1 - 1e-12, Math.max(1e-12, sigmoid(this.logit(x))));
+      return sum - (targets[i] * Math.log(p) + (1 - targets[i]) * Math.log(1 - p));
+    }, 0) / inputs.length;
+  }
+
+  private logit(x: number[]): number {
+    let z = this.bias;
+    for (let j = 0; j < x.length; j++) {
+      z += this.weights[j] * x[j];
+    }
+    return z;
+  }
+
+  private standardize(x: number[]): number[] {
+    const { mean, std } = this.scaling!;
+    return x.map((value, j) => (value - mean[j]) / std[j]);
+  }
+}
+
+/**
+ * Features in schema order, log-scaling the heavy-tailed ones
+ */
+export function featureVector(features: ReputationFeatures): number[] {
+  return REPUTATION_FEATURES.map(name => {
+    const value = Number.isFinite(features[name]) ? features[name] : 0;
+    return LOG_SCALED.has(name) ? Math.log1p(Math.max(0, value)) : value;
+  });
+}
+
+/**
+ * Reject empty, mismatched or out-of-range training sets
+ */
+export function validateTrainingSet(samples: ReputationFeatures[], labels: number[]): void {
+  if (samples.length === 0) {
+    throw new Error('Cannot train reputation model without samples');
+  }
+  if (samples.length !== labels.length) {
+    throw new Error(`Got ${samples.length} samples but ${labels.length} labels`);
+  }
+  if (labels.some(label => !Number.isFinite(label) || label < 0 || label > 100)) {
+    throw new Error('Reputation labels must be within 0-100');
+  }
+}
+
+/**
+ * Per-feature mean and standard deviation (constant features scale by 1)
+ */
+export function fitStandardization(rows: number[][]): Standardization {
+  const dims = rows[0].length;
+  const mean = new Array(dims).fill(0);
+  const std = new Array(dims).fill(0);
+
+  for (const row of rows) {
+    row.forEach((value, j) => (mean[j] += value / rows.length));
+  }
+  for (const row of rows) {
+    row.forEach((value, j) => (std[j] += Math.pow(value - mean[j], 2) / rows.length));
+  }
+
+  return { mean, std: std.map(variance => (variance > 1e-12 ? Math.sqrt(variance) : 1)) };
+}
+
+/**
+ * Validate (and copy) normalization stats from a saved state
+ */
+export function checkStandardization(normalization: Standardization | undefined): Standardization {
+  const dims = REPUTATION_FEATURES.length;
+  if (!normalization || !isVector(normalization.mean, dims) || !isVector(normalization.std, dims)) {
+    throw new Error(`Model state must have ${dims} finite normalization means and deviations`);
+  }
+  return { mean: [...normalization.mean], std: [...normalization.std] };
+}
+
+export function isVector(value: unknown, length: number): value is number[] {
+  return Array.isArray(value) && value.length === length && value.every(x => Number.isFinite(x));
+}
+
+export function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+/**
+ * Fisher-Yates shuffle in place
+ */
+export function shuffle(values: number[], random: () => number): void {
+  for (let i = values.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [values[i], values[j]] = [values[j], values[i]];
+  }
+}
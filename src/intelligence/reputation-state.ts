@@ -0,0 +1,184 @@
+/**
+ * Reputation State
+ *
+ * Incremental per-pseudonym reputation aggregates (hashed keys only).
+ * Every aggregate decays exponentially with time, so old behavior fades
+ * instead of counting forever; a pseudonym whose weight has faded away is
+ * forgotten. Nothing is kept per payment.
+ */
+
+export interface ReputationStateOptions {
+  halfLife?: number; // milliseconds for a payment's weight to halve
+  recentWindow?: number; // time constant (ms) of the recent-activity count
+  minWeight?: number; // decayed payment weight below which a pseudonym is forgotten
+  maxPseudonyms?: number; // pseudonyms kept (least recently active evicted)
+}
+
+export interface ReputationAggregate {
+  payments: number; // decayed payment count
+  amount: number; // decayed amount total
+  successes: number; // decayed successful payment count
+  intervalSum: number; // decayed sum of gaps between payments, ms
+  intervals: number; // decayed gap count
+  recent: number; // payment count decaying over the recent window
+  chains: Map<string, number>; // chain -> decayed payment count
+  lastPayment: number; // newest payment timestamp, ms
+}
+
+export interface StatePayment {
+  amount: bigint;
+  timestamp: bigint;
+  chain: string;
+  success: boolean;
+}
+
+export class ReputationStateStore {
+  private halfLife: number;
+  private recentWindow: number;
+  private minWeight: number;
+  private maxPseudonyms: number;
+  private states: Map<string, DecayingState> = new Map(); // least recently active first
+
+  constructor(options: ReputationStateOptions = {}) {
+    this.halfLife = options.halfLife ?? 30 * 24 * 60 * 60 * 1000; // 30 days
+    this.recentWindow = options.recentWindow ?? 7 * 24 * 60 * 60 * 1000; // 7 days
+    this.minWeight = options.minWeight ?? 0.01;
+    this.maxPseudonyms = options.maxPseudonyms ?? 100000;
+  }
+
+  /**
+   * Fold a payment into the pseudonym's aggregate
+   */
+  record(key: string, payment: StatePayment): void {
+    const time = Number(payment.timestamp);
+    const state = this.states.get(key) || this.emptyState(time);
+
+    // Decay the aggregate forward to this payment; an older payment is decayed instead
+    this.decayTo(state, time);
+    const weight = time < state.updatedAt ? this.factor(state.updatedAt - time, this.halfLife) : 1;
+    const recentWeight = time < state.updatedAt ? this.factor(state.updatedAt - time, this.recentWindow, true) : 1;
+
+    // Every payment after the first adds one gap, so the mean gap matches
+    // the batch features (span / (count - 1)) for in-order histories; a
+    // payment older than the newest adds no gap
+    if (state.payments > 0 && time >= state.lastPayment) {
+      state.intervalSum += weight * (time - state.lastPayment);
+      state.intervals += weight;
+    }
+
+    state.payments += weight;
+    state.amount += weight * Number(payment.amount);
+    state.successes += payment.success ? weight : 0;
+    state.recent += recentWeight;
+    state.chains.set(payment.chain, (state.chains.get(payment.chain) || 0) + weight);
+    state.lastPayment = Math.max(state.lastPayment, time);
+
+    // Re-insert so map order tracks activity
+    this.states.delete(key);
+    this.states.set(key, state);
+
+    while (this.states.size > this.maxPseudonyms) {
+      this.states.delete(this.states.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Aggregate decayed to now, undefined for unknown or faded pseudonyms
+   */
+  get(key: string, now: number = Date.now()): ReputationAggregate | undefined {
+    const state = this.states.get(key);
+    if (!state) return undefined;
+
+    this.decayTo(state, now);
+    if (state.payments < this.minWeight) {
+      this.states.delete(key);
+      return undefined;
+    }
+
+    return {
+      payments: state.payments,
+      amount: state.amount,
+      successes: state.successes,
+      intervalSum: state.intervalSum,
+      intervals: state.intervals,
+      recent: state.recent,
+      chains: new Map(state.chains),
+      lastPayment: state.lastPayment
+    };
+  }
+
+  /**
+   * Decay every aggregate to now and forget faded pseudonyms
+   */
+  recompute(now: number = Date.now()): { pseudonyms: number; forgotten: number } {
+    let forgotten = 0;
+
+    for (const [key, state] of this.states) {
+      this.decayTo(state, now);
+      if (state.payments < this.minWeight) {
+        this.states.delete(key);
+        forgotten++;
+      }
+    }
+
+    return { pseudonyms: this.states.size, forgotten };
+  }
+
+  /**
+   * Number of pseudonyms tracked
+   */
+  size(): number {
+    return this.states.size;
+  }
+
+  private emptyState(time: number): DecayingState {
+    return {
+      payments: 0,
+      amount: 0,
+      successes: 0,
+      intervalSum: 0,
+      intervals: 0,
+      recent: 0,
+      chains: new Map(),
+      lastPayment: time,
+      updatedAt: time
+    };
+  }
+
+  /**
+   * Apply decay for the time elapsed since the last update (never backwards)
+   */
+  private decayTo(state: DecayingState, time: number): void {
+    if (time <= state.updatedAt) return;
+
+    const elapsed = time - state.updatedAt;
+    const factor = this.factor(elapsed, this.halfLife);
+
+    state.payments *= factor;
+    state.amount *= factor;
+    state.successes *= factor;
+    state.intervalSum *= factor;
+    state.intervals *= factor;
+    state.recent *= this.factor(elapsed, this.recentWindow, true);
+    for (const [chain, weight] of state.chains) {
+      const decayed = weight * factor;
+      if (decayed < this.minWeight) {
+        state.chains.delete(chain);
+      } else {
+        state.chains.set(chain, decayed);
+      }
+    }
+    state.updatedAt = time;
+  }
+
+  /**
+   * Decay factor after elapsed ms: half-life, or exp(-t/τ) for a time constant
+   */
+  private factor(elapsed: number, scale: number, timeConstant: boolean = false): number {
+    return timeConstant ? Math.exp(-elapsed / scale) : Math.pow(0.5, elapsed / scale);
+  }
+}
+
+interface DecayingState extends ReputationAggregate {
+  updatedAt: number; // time the decay was last applied, ms
+}
@@ -0,0 +1,194 @@
+/**
+ * Risk Attestations
+ *
+ * Signed statements that a payment commitment passed fraud checks at or
+ * below a risk level under a given policy version. Attestations carry no
+ * features, scores or pseudonyms; counterparties verify them offline with
+ * the engine's ed25519 public key.
+ */
+
+import { ed25519 } from '@noble/curves/ed25519';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes, randomBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { FraudAssessment } from './fraud-detector';
+
+export type AttestedRiskLevel = FraudAssessment['riskLevel'];
+
+export interface RiskAttestation {
+  version: 1;
+  commitment: string; // hex payment commitment
+  maxRiskLevel: AttestedRiskLevel; // payment assessed at or below this level
+  policyVersion: string; // rule set / policy the check ran under
+  issuedAt: number; // ms since epoch
+  expiresAt: number; // ms since epoch
+  nonce: string; // hex, makes each attestation unique
+  publicKey: string; // hex ed25519 key of the signer
+  signature: string; // hex ed25519 signature over the fields above
+}
+
+export interface RiskAttestorOptions {
+  privateKey?: Uint8Array | string; // ed25519 secret (hex ok); default FRAUD_ATTESTATION_KEY or a fresh key
+  ttl?: number; // milliseconds an attestation stays valid
+  maxRiskLevel?: AttestedRiskLevel; // highest level the policy ever attests (default 'medium')
+}
+
+export interface AttestationRequirements {
+  commitment?: Uint8Array | string; // must match the payment being accepted
+  maxRiskLevel?: AttestedRiskLevel; // highest level the verifier accepts
+  policyVersion?: string;
+  now?: number;
+}
+
+export interface AttestationVerification {
+  valid: boolean;
+  reason?: string;
+}
+
+const DOMAIN = 'shadowos/risk-attestation/v1';
+
+const LEVELS: AttestedRiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+export class RiskAttestor {
+  private privateKey: Uint8Array;
+  private ttl: number;
+  private maxRiskLevel: AttestedRiskLevel;
+  readonly publicKey: string;
+
+  constructor(options: RiskAttestorOptions = {}) {
+    const key = options.privateKey ?? process.env.FRAUD_ATTESTATION_KEY;
+    this.privateKey = key
+      ? typeof key === 'string' ? hexToBytes(key.replace(/^0x/, '')) : key
+      : ed25519.utils.randomPrivateKey();
+
+    if (this.privateKey.length !== 32) {
+      throw new Error('Attestation signing key must be a 32-byte ed25519 secret');
+    }
+
+    this.ttl = options.ttl ?? 10 * 60 * 1000;
+    this.maxRiskLevel = options.maxRiskLevel ?? 'medium';
+    this.publicKey = bytesToHex(ed25519.getPublicKey(this.privateKey));
+  }
+
+  /**
+   * Attest that commitment passed risk checks at or below maxRiskLevel
+   * (never above the policy threshold; flagged payments are refused)
+   */
+  attest(
+    commitment: Uint8Array,
+    assessment: FraudAssessment,
+    policyVersion: string,
+    maxRiskLevel: AttestedRiskLevel = this.maxRiskLevel
+  ): RiskAttestation {
+    if (commitment.length === 0) {
+      throw new Error('Cannot attest an empty commitment');
+    }
+    if (assessment.commitment !== undefined && assessment.commitment !== bytesToHex(commitment)) {
+      throw new Error('Assessment was computed for a different commitment');
+    }
+    if (LEVELS.indexOf(maxRiskLevel) > LEVELS.indexOf(this.maxRiskLevel)) {
+      throw new Error(`Cannot attest at ${maxRiskLevel} risk; policy allows at most ${this.maxRiskLevel}`);
+    }
+    if (assessment.flagged) {
+      throw new Error('Payment was flagged as fraud; it did not pass risk checks');
+    }
+    if (assessment.hardLimits.length > 0) {
+      throw new Error('Payment exceeded hard limits; it did not pass risk checks');
+    }
+    if (LEVELS.indexOf(assessment.riskLevel) > LEVELS.indexOf(maxRiskLevel)) {
+      throw new Error(`Payment assessed as ${assessment.riskLevel} risk, above ${maxRiskLevel}`);
+    }
+
+    const issuedAt = Date.now();
+    const unsigned: Omit<RiskAttestation, 'signature'> = {
+      version: 1,
+      commitment: bytesToHex(commitment),
+      maxRiskLevel,
+      policyVersion,
+      issuedAt,
+      expiresAt: issuedAt + this.ttl,
+      nonce: bytesToHex(randomBytes(16)),
+      publicKey: this.publicKey
+    };
+
+    return {
+      ...unsigned,
+      signature: bytesToHex(ed25519.sign(attestationDigest(unsigned), this.privateKey))
+    };
+  }
+}
+
+/**
+ * Verify an attestation offline against a trusted public key
+ */
+export function verifyRiskAttestation(
+  attestation: RiskAttestation,
+  trustedPublicKey: Uint8Array | string,
+  requirements: AttestationRequirements = {}
+): AttestationVerification {
+  const trusted = typeof trustedPublicKey === 'string'
+    ? trustedPublicKey.replace(/^0x/, '').toLowerCase()
+    : bytesToHex(trustedPublicKey);
+
+  if (attestation.version !== 1) {
+    return { valid: false, reason: `unsupported attestation version ${attestation.version}` };
+  }
+  if (attestation.publicKey.toLowerCase() !== trusted) {
+    return { valid: false, reason: 'signed by an untrusted key' };
+  }
+
+  const { signature, ...unsigned } = attestation;
+  let signed: boolean;
+  try {
+    signed = ed25519.verify(hexToBytes(signature), attestationDigest(unsigned), hexToBytes(trusted));
+  } catch {
+    signed = false;
+  }
+  if (!signed) {
+    return { valid: false, reason: 'invalid signature' };
+  }
+
+  const now = requirements.now ?? Date.now();
+  if (now > attestation.expiresAt || now < attestation.issuedAt) {
+    return { valid: false, reason: 'attestation expired or not yet valid' };
+  }
+
+  if (requirements.commitment !== undefined) {
+    const expected = typeof requirements.commitment === 'string'
+      ? requirements.commitment.replace(/^0x/, '').toLowerCase()
+      : bytesToHex(requirements.commitment);
+    if (attestation.commitment !== expected) {
+      return { valid: false, reason: 'commitment mismatch' };
+    }
+  }
+
+  if (
+    requirements.maxRiskLevel !== undefined &&
+    LEVELS.indexOf(attestation.maxRiskLevel) > LEVELS.indexOf(requirements.maxRiskLevel)
+  ) {
+    return { valid: false, reason: `attested level ${attestation.maxRiskLevel} exceeds ${requirements.maxRiskLevel}` };
+  }
+
+  if (requirements.policyVersion !== undefined && attestation.policyVersion !== requirements.policyVersion) {
+    return { valid: false, reason: 'policy version mismatch' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Domain-separated digest of the signed fields (fixed field order)
+ */
+function attestationDigest(fields: Omit<RiskAttestation, 'signature'>): Uint8Array {
+  const canonical = JSON.stringify([
+    DOMAIN,
+    fields.version,
+    fields.commitment,
+    fields.maxRiskLevel,
+    fields.policyVersion,
+    fields.issuedAt,
+    fields.expiresAt,
+    fields.nonce,
+    fields.publicKey
+  ]);
+  return sha256(utf8ToBytes(canonical));
+}
@@ -0,0 +1,152 @@
+/**
+ * Route Bandit
+ *
+ * Exploration-aware route selection. Chains that start with lower
+ * default scores never gain ledger history under pure exploitation;
+ * Thompson sampling or UCB occasionally picks them, within a budget.
+ */
+
+import { mulberry32 } from './random';
+
+export type SelectionStrategy = 'greedy' | 'thompson' | 'ucb';
+
+export interface BanditOptions {
+  strategy: SelectionStrategy;
+  explorationBudget?: number; // max fraction of selections that may deviate from greedy, 0-1
+  ucbScale?: number; // UCB exploration constant
+  scoreUncertainty?: number; // Thompson: std-dev of an unobserved arm's total score
+  seed?: number; // deterministic sampling for tests
+}
+
+export interface BanditArm {
+  score: number; // greedy score of the candidate
+  successWeight: number; // scorer weight on the success term
+  alpha: number; // Beta posterior successes (incl. prior)
+  beta: number; // Beta posterior failures (incl. prior)
+  pulls: number; // effective observations
+}
+
+export interface BanditSelection {
+  index: number;
+  explored: boolean; // chosen arm differs from the greedy best
+}
+
+export class RouteBandit {
+  readonly strategy: SelectionStrategy;
+  private explorationBudget: number;
+  private ucbScale: number;
+  private scoreUncertainty: number;
+  private random: () => number;
+  private decisions: number = 0;
+  private explorations: number = 0;
+
+  constructor(options: BanditOptions) {
+    this.strategy = options.strategy;
+    this.explorationBudget = Math.max(0, Math.min(1, options.explorationBudget ?? 0.1));
+    this.ucbScale = options.ucbScale ?? 1.0;
+    this.scoreUncertainty = options.scoreUncertainty ?? 0.15;
+    this.random = mulberry32(options.seed ?? Date.now());
+  }
+
+  /**
+   * Pick an arm (arms must be non-empty)
+   */
+  select(arms: BanditArm[]): BanditSelection {
+    const greedy = argmax(arms.map(a => a.score));
+    this.decisions++;
+
+    if (this.strategy === 'greedy' || arms.length < 2) {
+      return { index: greedy, explored: false };
+    }
+
+    const totalPulls = arms.reduce((sum, a) => sum + a.pulls, 0);
+    const adjusted = arms.map(arm => {
+      const mean = arm.alpha / (arm.alpha + arm.beta);
+
+      if (this.strategy === 'thompson') {
+        // Swap the success mean for a posterior sample; the rest of the
+        // score (cost/time priors) is uncertain until the arm is observed
+        const successDraw = arm.successWeight * (this.sampleBeta(arm.alpha, arm.beta) - mean);
+        const scoreDraw = (this.scoreUncertainty * this.sampleNormal()) / Math.sqrt(arm.pulls + 1);
+        return arm.score + successDraw + scoreDraw;
+      }
+
+      // UCB1 bonus on the success term
+      const bonus = this.ucbScale * Math.sqrt((2 * Math.log(totalPulls + 1)) / (arm.pulls + 1));
+      return arm.score + arm.successWeight * bonus;
+    });
+
+    const chosen = argmax(adjusted);
+    if (chosen === greedy) {
+      return { index: greedy, explored: false };
+    }
+
+    // Out of exploration budget: exploit
+    if ((this.explorations + 1) / this.decisions > this.explorationBudget) {
+      return { index: greedy, explored: false };
+    }
+
+    this.explorations++;
+    return { index: chosen, explored: true };
+  }
+
+  /**
+   * Fraction of selections so far that explored
+   */
+  getExplorationRate(): number {
+    return this.decisions > 0 ? this.explorations / this.decisions : 0;
+  }
+
+  /**
+   * Sample Beta(a, b) via two Gamma draws
+   */
+  private sampleBeta(a: number, b: number): number {
+    const x = this.sampleGamma(Math.max(a, 1e-3));
+    const y = this.sampleGamma(Math.max(b, 1e-3));
+    return x + y > 0 ? x / (x + y) : 0.5;
+  }
+
+  /**
+   * Sample Gamma(shape, 1) (Marsaglia-Tsang)
+   */
+  private sampleGamma(shape: number): number {
+    if (shape < 1) {
+      // Boost small shapes: Gamma(k) = Gamma(k + 1) * U^(1/k)
+      return this.sampleGamma(shape + 1) * Math.pow(this.random(), 1 / shape);
+    }
+
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+
+    for (;;) {
+      let x: number;
+      let v: number;
+      do {
+        x = this.sampleNormal();
+        v = 1 + c * x;
+      } while (v <= 0);
+
+      v = v * v * v;
+      const u = this.random();
+      if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+      if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+    }
+  }
+
+  /**
+   * Standard normal sample (Box-Muller)
+   */
+  private sampleNormal(): number {
+    const u = Math.max(this.random(), Number.EPSILON);
+    const v = this.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+}
+
+function argmax(values: number[]): number {
+  let best = 0;
+  for (let i = 1; i < values.length; i++) {
+    if (values[i] > values[best]) best = i;
+  }
+  return best;
+}
@@ -0,0 +1,244 @@
+/**
+ * Route Outcome Ledger
+ *
+ * Records what actually happened to routed payments (success, gas used,
+ * latency) per chain and amount bucket, and turns it into decayed
+ * Bayesian estimates anchored on the router's default priors
+ */
+
+export interface RouteOutcome {
+  chain: string;
+  amount: bigint;
+  success: boolean;
+  actualGas?: bigint;
+  latency?: number; // milliseconds from submission to confirmation
+  timestamp?: number; // unix ms, defaults to now
+}
+
+export interface LedgerStats {
+  chain: string;
+  bucket: number;
+  observations: number;
+  successes: number;
+  failures: number;
+  effectiveWeight: number; // decayed observation weight
+  successRate: number | null; // decayed rate without prior
+  avgGas: bigint | null;
+  avgLatency: number | null;
+  lastUpdated: number;
+}
+
+export interface RouteLedgerOptions {
+  halfLife?: number; // milliseconds for an observation to lose half its weight
+  successPriorStrength?: number; // pseudo-observations backing the prior
+  estimatePriorStrength?: number;
+}
+
+export class RouteLedger {
+  private buckets: Map<string, LedgerBucket> = new Map();
+  private halfLife: number;
+  private successPriorStrength: number;
+  private estimatePriorStrength: number;
+
+  constructor(options: RouteLedgerOptions = {}) {
+    this.halfLife = options.halfLife ?? 7 * 24 * 60 * 60 * 1000; // 7 days
+    this.successPriorStrength = options.successPriorStrength ?? 20;
+    this.estimatePriorStrength = options.estimatePriorStrength ?? 5;
+  }
+
+  /**
+   * Record a payment outcome
+   */
+  record(outcome: RouteOutcome): void {
+    const timestamp = outcome.timestamp ?? Date.now();
+    const bucket = this.getBucket(outcome.chain, outcome.amount, true)!;
+
+    this.decay(bucket, timestamp);
+
+    // Out-of-order (older) outcomes enter already decayed
+    const weight = Math.pow(0.5, Math.max(0, bucket.lastUpdated - timestamp) / this.halfLife);
+
+    bucket.observations++;
+    bucket.totalWeight += weight;
+    if (outcome.success) {
+      bucket.successes++;
+      bucket.successWeight += weight;
+    } else {
+      bucket.failures++;
+    }
+
+    // Gas and latency only mean something for confirmed payments
+    if (outcome.success && outcome.actualGas !== undefined) {
+      bucket.gasSum += Number(outcome.actualGas) * weight;
+      bucket.gasWeight += weight;
+    }
+    if (outcome.success && outcome.latency !== undefined) {
+      bucket.latencySum += outcome.latency * weight;
+      bucket.latencyWeight += weight;
+    }
+  }
+
+  /**
+   * Posterior mean success rate (Beta prior centered on `prior`)
+   */
+  successRate(chain: string, amount: bigint, prior: number): number {
+    const bucket = this.current(chain, amount);
+    if (!bucket) return prior;
+
+    const k = this.successPriorStrength;
+    return (prior * k + bucket.successWeight) / (k + bucket.totalWeight);
+  }
+
+  /**
+   * Beta posterior parameters behind `successRate`
+   */
+  successPosterior(chain: string, amount: bigint, prior: number): { alpha: number; beta: number } {
+    const bucket = this.current(chain, amount);
+    const k = this.successPriorStrength;
+    const successes = bucket?.successWeight ?? 0;
+    const failures = (bucket?.totalWeight ?? 0) - successes;
+
+    return { alpha: prior * k + successes, beta: (1 - prior) * k + failures };
+  }
+
+  /**
+   * Decayed gas estimate shrunk towards `prior`
+   */
+  gasEstimate(chain: string, amount: bigint, prior: bigint): bigint {
+    const bucket = this.current(chain, amount);
+    if (!bucket || bucket.gasWeight === 0) return prior;
+
+    const k = this.estimatePriorStrength;
+    return BigInt(Math.round((Number(prior) * k + bucket.gasSum) / (k + bucket.gasWeight)));
+  }
+
+  /**
+   * Decayed latency estimate shrunk towards `prior`
+   */
+  latencyEstimate(chain: string, amount: bigint, prior: number): number {
+    const bucket = this.current(chain, amount);
+    if (!bucket || bucket.latencyWeight === 0) return prior;
+
+    const k = this.estimatePriorStrength;
+    return (prior * k + bucket.latencySum) / (k + bucket.latencyWeight);
+  }
+
+  /**
+   * Number of decayed observations behind a chain/amount estimate
+   */
+  effectiveObservations(chain: string, amount: bigint): number {
+    return this.current(chain, amount)?.totalWeight ?? 0;
+  }
+
+  /**
+   * Get stats for every recorded bucket
+   */
+  getStats(chain?: string): LedgerStats[] {
+    const now = Date.now();
+    const stats: LedgerStats[] = [];
+
+    for (const bucket of this.buckets.values()) {
+      if (chain && bucket.chain !== chain) continue;
+      this.decay(bucket, now);
+
+      stats.push({
+        chain: bucket.chain,
+        bucket: bucket.bucket,
+        observations: bucket.observations,
+        successes: bucket.successes,
+        failures: bucket.failures,
+        effectiveWeight: bucket.totalWeight,
+        successRate: bucket.totalWeight > 0 ? bucket.successWeight / bucket.totalWeight : null,
+        avgGas: bucket.gasWeight > 0 ? BigInt(Math.round(bucket.gasSum / bucket.gasWeight)) : null,
+        avgLatency: bucket.latencyWeight > 0 ? bucket.latencySum / bucket.latencyWeight : null,
+        lastUpdated: bucket.lastUpdated
+      });
+    }
+
+    return stats;
+  }
+
+  /**
+   * Amount bucket: order of magnitude of the amount
+   */
+  static amountBucket(amount: bigint): number {
+    return amount > 0n ? amount.toString().length - 1 : 0;
+  }
+
+  /**
+   * Get bucket decayed to now
+   */
+  private current(chain: string, amount: bigint): LedgerBucket | undefined {
+    const bucket = this.getBucket(chain, amount, false);
+    if (bucket) {
+      this.decay(bucket, Date.now());
+    }
+    return bucket;
+  }
+
+  /**
+   * Look up (optionally create) bucket for chain and amount
+   */
+  private getBucket(chain: string, amount: bigint, create: boolean): LedgerBucket | undefined {
+    const bucketIndex = RouteLedger.amountBucket(amount);
+    const key = `${chain}:${bucketIndex}`;
+    let bucket = this.buckets.get(key);
+
+    if (!bucket && create) {
+      bucket = {
+        chain,
+        bucket: bucketIndex,
+        observations: 0,
+        successes: 0,
+        failures: 0,
+        successWeight: 0,
+        totalWeight: 0,
+        gasSum: 0,
+        gasWeight: 0,
+        latencySum: 0,
+        latencyWeight: 0,
+        lastUpdated: 0
+      };
+      this.buckets.set(key, bucket);
+    }
+
+    return bucket;
+  }
+
+  /**
+   * Exponentially decay accumulated weights up to `now`
+   */
+  private decay(bucket: LedgerBucket, now: number): void {
+    if (bucket.lastUpdated === 0) {
+      bucket.lastUpdated = now;
+      return;
+    }
+
+    const elapsed = now - bucket.lastUpdated;
+    if (elapsed <= 0) return;
+
+    const factor = Math.pow(0.5, elapsed / this.halfLife);
+    bucket.successWeight *= factor;
+    bucket.totalWeight *= factor;
+    bucket.gasSum *= factor;
+    bucket.gasWeight *= factor;
+    bucket.latencySum *= factor;
+    bucket.latencyWeight *= factor;
+    bucket.lastUpdated = now;
+  }
+}
+
+interface LedgerBucket {
+  chain: string;
+  bucket: number;
+  observations: number;
+  successes: number;
+  failures: number;
+  successWeight: number;
+  totalWeight: number;
+  gasSum: number;
+  gasWeight: number;
+  latencySum: number;
+  latencyWeight: number;
+  lastUpdated: number;
+}
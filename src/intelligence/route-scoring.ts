@@ -0,0 +1,137 @@
+/**
+ * Route Scoring Strategies
+ *
+ * Normalizes gas, time, privacy and success rate onto a common 0-1
+ * scale and combines them with mode-specific weight vectors
+ */
+
+import { PaymentRoute } from './payment-optimizer';
+
+export type OptimizationMode = 'speed' | 'cost' | 'privacy' | 'balanced';
+
+export interface ScoringWeights {
+  privacy: number;
+  success: number;
+  cost: number;
+  time: number;
+}
+
+export interface RouteScore {
+  total: number;
+  terms: ScoringWeights; // weighted contribution of each term
+}
+
+export interface RouteScorer {
+  readonly mode: OptimizationMode;
+  readonly weights: ScoringWeights;
+
+  /**
+   * Score routes relative to each other (same order as input)
+   */
+  score(routes: PaymentRoute[]): RouteScore[];
+}
+
+export const MODE_WEIGHTS: Record<OptimizationMode, ScoringWeights> = {
+  balanced: { privacy: 0.3, success: 0.3, cost: 0.2, time: 0.2 },
+  speed: { privacy: 0.1, success: 0.3, cost: 0.1, time: 0.5 },
+  cost: { privacy: 0.1, success: 0.25, cost: 0.55, time: 0.1 },
+  privacy: { privacy: 0.55, success: 0.25, cost: 0.1, time: 0.1 }
+};
+
+/**
+ * Weighted-sum scorer over min-max normalized route terms
+ */
+export class WeightedRouteScorer implements RouteScorer {
+  readonly mode: OptimizationMode;
+  readonly weights: ScoringWeights;
+
+  constructor(mode: OptimizationMode = 'balanced', overrides: Partial<ScoringWeights> = {}) {
+    this.mode = mode;
+    this.weights = normalizeWeights({ ...MODE_WEIGHTS[mode], ...overrides });
+  }
+
+  score(routes: PaymentRoute[]): RouteScore[] {
+    // Compare real USD cost (incl. bridge hops) when every route is priced,
+    // gas units otherwise
+    const usdCosts = routes.map(routeCostUsd);
+    const priced = usdCosts.every(cost => cost !== null);
+    const costs = routes.map((r, i) => (priced ? usdCosts[i]! : Number(r.estimatedGas)));
+    const times = routes.map(r => r.estimatedTime);
+
+    return routes.map((route, i) => {
+      const terms: ScoringWeights = {
+        privacy: this.weights.privacy * clamp(route.privacyScore),
+        success: this.weights.success * clamp(route.successRate),
+        cost: this.weights.cost * invertedMinMax(costs[i], costs),
+        time: this.weights.time * invertedMinMax(times[i], times)
+      };
+
+      return {
+        total: terms.privacy + terms.success + terms.cost + terms.time,
+        terms
+      };
+    });
+  }
+}
+
+/**
+ * Check whether a string names a known optimization mode
+ */
+export function isOptimizationMode(value: unknown): value is OptimizationMode {
+  return typeof value === 'string' && value in MODE_WEIGHTS;
+}
+
+/**
+ * Total USD cost of a route: destination fee plus every bridge hop
+ * (null when any part is unpriced)
+ */
+export function routeCostUsd(route: PaymentRoute): number | null {
+  const hopCost = hopCostUsd(route);
+  return route.fee?.usdCost == null || hopCost === null ? null : route.fee.usdCost + hopCost;
+}
+
+/**
+ * USD cost of a route's bridge hops (0 without hops, null when any is unpriced)
+ */
+export function hopCostUsd(route: PaymentRoute): number | null {
+  const hops = route.hops || [];
+  return hops.some(h => h.feeUsd === null) ? null : hops.reduce((sum, h) => sum + h.feeUsd!, 0);
+}
+
+/**
+ * Scale weights so they sum to 1 (negative weights are dropped)
+ */
+function normalizeWeights(weights: ScoringWeights): ScoringWeights {
+  const safe: ScoringWeights = {
+    privacy: Math.max(0, weights.privacy),
+    success: Math.max(0, weights.success),
+    cost: Math.max(0, weights.cost),
+    time: Math.max(0, weights.time)
+  };
+  const sum = safe.privacy + safe.success + safe.cost + safe.time;
+
+  if (sum === 0) {
+    return { ...MODE_WEIGHTS.balanced };
+  }
+
+  return {
+    privacy: safe.privacy / sum,
+    success: safe.success / sum,
+    cost: safe.cost / sum,
+    time: safe.time / sum
+  };
+}
+
+/**
+ * Lower-is-better value mapped to 0-1 (1 = best in set)
+ */
+function invertedMinMax(value: number, values: number[]): number {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (max === min) return 1;
+  return 1 - (value - min) / (max - min);
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
@@ -0,0 +1,191 @@
+/**
+ * Velocity Tracker
+ *
+ * Per-pseudonym payment count and summed amount over sliding windows
+ * (1 minute, 1 hour, 1 day by default). Windows are approximated with a
+ * fixed ring of time slots, so memory per pseudonym is constant, and time
+ * comes from payment timestamps so historical replays behave like live
+ * traffic.
+ */
+
+export interface VelocityWindow {
+  name: string; // e.g. '1m'; used in anomaly names
+  duration: number; // milliseconds
+  maxCount?: number; // hard limit on payments within the window
+  maxAmount?: bigint; // hard limit on summed amount within the window
+}
+
+export interface VelocityOptions {
+  windows?: VelocityWindow[];
+  slotsPerWindow?: number; // window granularity = duration / slotsPerWindow
+  maxPseudonyms?: number; // least recently active pseudonyms are evicted beyond this
+}
+
+export interface VelocityUsage {
+  window: string;
+  count: number;
+  amount: bigint;
+}
+
+export interface VelocityBreach {
+  window: string;
+  limit: 'count' | 'amount';
+  value: bigint; // observed count or amount, including the assessed payment
+  max: bigint;
+}
+
+export interface VelocityCheck {
+  usage: VelocityUsage[];
+  breaches: VelocityBreach[];
+}
+
+export const DEFAULT_VELOCITY_WINDOWS: VelocityWindow[] = [
+  { name: '1m', duration: 60 * 1000 },
+  { name: '1h', duration: 60 * 60 * 1000 },
+  { name: '1d', duration: 24 * 60 * 60 * 1000 }
+];
+
+export class VelocityTracker {
+  private windows: VelocityWindow[];
+  private slotsPerWindow: number;
+  private maxPseudonyms: number;
+  private counters: Map<string, WindowCounter[]> = new Map();
+
+  constructor(options: VelocityOptions = {}) {
+    this.windows = options.windows ?? DEFAULT_VELOCITY_WINDOWS;
+    this.slotsPerWindow = options.slotsPerWindow ?? 60;
+    this.maxPseudonyms = options.maxPseudonyms ?? 100000;
+
+    for (const window of this.windows) {
+      if (window.duration <= 0) {
+        throw new Error(`Velocity window ${window.name}: duration must be positive`);
+      }
+    }
+  }
+
+  /**
+   * Record a payment at its timestamp
+   */
+  record(key: string, amount: bigint, timestamp: bigint): void {
+    let counters = this.counters.get(key);
+    if (counters) {
+      // Re-insert to keep the map in least-recently-active order
+      this.counters.delete(key);
+    } else {
+      counters = this.windows.map(window => this.createCounter(window));
+    }
+    this.counters.set(key, counters);
+
+    const time = Number(timestamp);
+    for (const counter of counters) {
+      const slotId = Math.floor(time / counter.slotSize);
+      const latest = Math.max(counter.latestSlot, slotId);
+
+      // Too old to fall inside the window any more
+      if (slotId <= latest - this.slotsPerWindow) continue;
+
+      const index = slotId % this.slotsPerWindow;
+      if (counter.slotIds[index] !== slotId) {
+        counter.slotIds[index] = slotId;
+        counter.counts[index] = 0;
+        counter.amounts[index] = 0n;
+      }
+
+      counter.counts[index]++;
+      counter.amounts[index] += amount;
+      counter.latestSlot = latest;
+    }
+
+    while (this.counters.size > this.maxPseudonyms) {
+      const oldest = this.counters.keys().next().value as string;
+      this.counters.delete(oldest);
+    }
+  }
+
+  /**
+   * Usage per window as of timestamp
+   */
+  getUsage(key: string, timestamp: bigint): VelocityUsage[] {
+    const counters = this.counters.get(key);
+    const time = Number(timestamp);
+
+    return this.windows.map((window, i) => {
+      if (!counters) {
+        return { window: window.name, count: 0, amount: 0n };
+      }
+
+      const counter = counters[i];
+      const current = Math.floor(time / counter.slotSize);
+      let count = 0;
+      let amount = 0n;
+
+      for (let s = 0; s < this.slotsPerWindow; s++) {
+        const slotId = counter.slotIds[s];
+        if (slotId > current - this.slotsPerWindow && slotId <= current) {
+          count += counter.counts[s];
+          amount += counter.amounts[s];
+        }
+      }
+
+      return { window: window.name, count, amount };
+    });
+  }
+
+  /**
+   * Check limits for a prospective payment (counted as if recorded)
+   */
+  check(key: string, amount: bigint, timestamp: bigint): VelocityCheck {
+    const usage = this.getUsage(key, timestamp).map(u => ({
+      window: u.window,
+      count: u.count + 1,
+      amount: u.amount + amount
+    }));
+    const breaches: VelocityBreach[] = [];
+
+    this.windows.forEach((window, i) => {
+      if (window.maxCount !== undefined && usage[i].count > window.maxCount) {
+        breaches.push({
+          window: window.name,
+          limit: 'count',
+          value: BigInt(usage[i].count),
+          max: BigInt(window.maxCount)
+        });
+      }
+      if (window.maxAmount !== undefined && usage[i].amount > window.maxAmount) {
+        breaches.push({
+          window: window.name,
+          limit: 'amount',
+          value: usage[i].amount,
+          max: window.maxAmount
+        });
+      }
+    });
+
+    return { usage, breaches };
+  }
+
+  /**
+   * Number of tracked pseudonyms
+   */
+  size(): number {
+    return this.counters.size;
+  }
+
+  private createCounter(window: VelocityWindow): WindowCounter {
+    return {
+      slotSize: window.duration / this.slotsPerWindow,
+      slotIds: new Array(this.slotsPerWindow).fill(-Infinity),
+      counts: new Array(this.slotsPerWindow).fill(0),
+      amounts: new Array(this.slotsPerWindow).fill(0n),
+      latestSlot: -Infinity
+    };
+  }
+}
+
+interface WindowCounter {
+  slotSize: number; // milliseconds per slot
+  slotIds: number[]; // absolute slot number held at each ring index
+  counts: number[];
+  amounts: bigint[];
+  latestSlot: number; // newest slot recorded (payment time, not wall clock)
+}
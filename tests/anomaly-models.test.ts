@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'bun:test';
+import { AnomalyModel, IsolationForestModel, MadModel, ZScoreModel } from '../src/intelligence/anomaly-models';
+import { mulberry32 } from '../src/intelligence/random';
+
+// Normal traffic: two features clustered around (1, 5)
+function normalTraffic(count: number, seed: number = 1): number[][] {
+  const random = mulberry32(seed);
+  return Array.from({ length: count }, () => [1 + random() * 0.5, 5 + random()]);
+}
+
+function train(model: AnomalyModel, vectors: number[][], key: string = 'a'): AnomalyModel {
+  vectors.forEach(vector => model.update(key, vector));
+  return model;
+}
+
+describe('anomaly models', () => {
+  for (const create of [() => new ZScoreModel(), () => new MadModel()]) {
+    const name = create().name;
+
+    it(`${name} scores nothing until it has seen enough traffic`, () => {
+      const model = train(create(), normalTraffic(3));
+
+      expect(model.score('a', [100, 100])).toBe(0);
+    });
+
+    it(`${name} separates outliers from normal traffic`, () => {
+      const model = train(create(), normalTraffic(100));
+
+      expect(model.score('a', [1.2, 5.5])).toBe(0);
+      expect(model.score('a', [20, 5.5])).toBe(1);
+      // Global statistics cover pseudonyms without their own history
+      expect(model.score('new', [20, 5.5])).toBe(1);
+    });
+  }
+
+  it('zscore evicts the least recently used per-key statistics', () => {
+    const model = new ZScoreModel({ maxKeys: 1, minObservations: 2 });
+    train(model, [[0], [0.1], [0]], 'a');
+    train(model, [[10], [10.1], [10]], 'b');
+
+    // Only the global stats remain for 'a', which now include b's traffic
+    expect(model.score('a', [10])).toBe(0);
+  });
+
+  it('isolation forest trains once enough vectors are buffered', () => {
+    const model = new IsolationForestModel({ seed: 5, minTrainingSize: 32, retrainEvery: 50 });
+    train(model, normalTraffic(31));
+    expect(model.score('a', [50, 50])).toBe(0);
+
+    train(model, normalTraffic(200, 2));
+    const outlier = model.score('a', [50, 50]);
+    const normal = model.score('a', [1.25, 5.5]);
+    expect(outlier).toBeGreaterThan(0.3);
+    expect(outlier).toBeGreaterThan(normal + 0.2);
+  });
+
+  it('isolation forest isolates values on features that were constant in training', () => {
+    const model = new IsolationForestModel({ seed: 5 });
+    train(model, normalTraffic(64).map(([x]) => [x, 0]));
+
+    expect(model.score('a', [1.25, 1])).toBeGreaterThan(model.score('a', [1.25, 0]));
+  });
+});
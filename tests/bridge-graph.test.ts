@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'bun:test';
+import { AIPaymentRouter } from '../src/intelligence/payment-optimizer';
+import { BridgeGraph, BridgeEdge } from '../src/intelligence/bridge-graph';
+import { StaticPriceSource } from '../src/intelligence/fee-model';
+import { routeCostUsd } from '../src/intelligence/route-scoring';
+
+// Arbitrum transfer costs about $0.10; the hop from ethereum adds an $8.20 bridge fee
+const expensiveBridge: BridgeEdge = {
+  from: 'ethereum',
+  to: 'arbitrum',
+  bridge: 'test-bridge',
+  feeBps: 0,
+  fixedFee: 8_200_000n, // USDC base units
+  latency: 60_000,
+  privacyImpact: 0.1,
+  successRate: 0.99,
+  gasUnits: 1n
+};
+
+function router(): AIPaymentRouter {
+  return new AIPaymentRouter({
+    priceSource: new StaticPriceSource({ ETH: 3000, USDC: 1 }),
+    bridges: new BridgeGraph([expensiveBridge]),
+    gasForecaster: false
+  });
+}
+
+describe('AIPaymentRouter bridged routes', () => {
+  it('counts bridge hop fees against maxCostUsd', async () => {
+    const ranking = await router().rankRoutes({
+      amount: 1_000_000n,
+      privacyLevel: 'low',
+      sourceChain: 'ethereum',
+      targetChain: 'arbitrum',
+      maxCostUsd: 0.5
+    });
+
+    const [candidate] = ranking.candidates;
+    expect(candidate.route!.fee!.usdCost!).toBeLessThan(0.5);
+    expect(routeCostUsd(candidate.route!)!).toBeGreaterThan(8.2);
+    expect(candidate.eligible).toBe(false);
+    expect(candidate.rejectionReason).toBe('over_max_cost');
+    expect(ranking.fallback).toBe(true);
+  });
+
+  it('accepts the bridged route when the cap covers the hop', async () => {
+    const ranking = await router().rankRoutes({
+      amount: 1_000_000n,
+      privacyLevel: 'low',
+      sourceChain: 'ethereum',
+      targetChain: 'arbitrum',
+      maxCostUsd: 10
+    });
+
+    expect(ranking.candidates[0].eligible).toBe(true);
+    expect(ranking.best.hops).toHaveLength(1);
+  });
+
+  it('leaves direct routes capped by their own fee', async () => {
+    const ranking = await router().rankRoutes({
+      amount: 1_000_000n,
+      privacyLevel: 'low',
+      targetChain: 'arbitrum',
+      preferredChains: ['arbitrum'],
+      maxCostUsd: 0.5
+    });
+
+    expect(ranking.candidates[0].eligible).toBe(true);
+    expect(routeCostUsd(ranking.best)).toBe(ranking.best.fee!.usdCost);
+  });
+});
+
+describe('BridgeGraph', () => {
+  it('finds simple paths within the hop limit', () => {
+    const graph = new BridgeGraph();
+
+    const direct = graph.findPaths('ethereum', 'arbitrum', 1);
+    expect(direct.map(path => path.map(edge => edge.bridge))).toEqual([['arbitrum-canonical']]);
+
+    const twoHops = graph.findPaths('solana', 'arbitrum', 2);
+    expect(twoHops.length).toBeGreaterThan(0);
+    expect(twoHops.every(path => path.length <= 2 && path[0].from === 'solana' && path[path.length - 1].to === 'arbitrum'))
+      .toBe(true);
+    expect(graph.findPaths('solana', 'arbitrum', 1)).toEqual([]);
+  });
+
+  it('rejects self loops and out-of-range edges', () => {
+    const graph = new BridgeGraph([]);
+    expect(() => graph.addEdge({ ...expensiveBridge, to: 'ethereum' })).toThrow('must differ');
+    expect(() => graph.addEdge({ ...expensiveBridge, successRate: 1.5 })).toThrow('within 0-1');
+  });
+});
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ChainRegistry, DEFAULT_CHAINS } from '../src/intelligence/chain-registry';
+
+describe('ChainRegistry', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'chain-registry-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('starts from the built-in chains', () => {
+    const registry = ChainRegistry.fromEnv({});
+
+    expect(registry.ids()).toEqual(DEFAULT_CHAINS.map(chain => chain.id));
+    expect(registry.get('arbitrum')?.settlementChain).toBe('ethereum');
+  });
+
+  it('adds and overrides chains from the config file', () => {
+    const path = join(dir, 'chains.json');
+    writeFileSync(path, JSON.stringify([
+      {
+        id: 'base', family: 'evm', baseGas: '21000', blockTime: 2000, confirmations: 12,
+        privacyScore: 0.6, successRate: 0.97, nativeToken: 'ETH', decimals: 18,
+        defaultGasPrice: '5000000', settlementChain: 'ethereum', l1DataGas: 1600
+      },
+      { ...DEFAULT_CHAINS[0], baseGas: '21000', defaultGasPrice: '1000000000', successRate: 0.9 }
+    ]));
+
+    const registry = ChainRegistry.fromEnv({ CHAIN_REGISTRY_PATH: path });
+    expect(registry.get('base')?.baseGas).toBe(21000n);
+    expect(registry.get('base')?.defaultGasPrice).toBe(5_000_000n);
+    expect(registry.get('ethereum')?.successRate).toBe(0.9);
+    expect(registry.size).toBe(DEFAULT_CHAINS.length + 1);
+  });
+
+  it('throws when the configured file does not exist', () => {
+    expect(() => ChainRegistry.fromEnv({ CHAIN_REGISTRY_PATH: join(dir, 'missing.json') }))
+      .toThrow('does not exist');
+  });
+
+  it('keeps only SUPPORTED_CHAINS and rejects unknown ids', () => {
+    const registry = ChainRegistry.fromEnv({ SUPPORTED_CHAINS: 'ethereum, solana' });
+    expect(registry.ids()).toEqual(['ethereum', 'solana']);
+    expect(registry.has('polygon')).toBe(false);
+
+    expect(() => ChainRegistry.fromEnv({ SUPPORTED_CHAINS: 'ethereum,near' }))
+      .toThrow('Unknown chains in SUPPORTED_CHAINS: near');
+  });
+
+  it('validates registered entries', () => {
+    const registry = new ChainRegistry([]);
+    const chain = DEFAULT_CHAINS[0];
+
+    expect(() => registry.register({ ...chain, family: 'move' as never })).toThrow('family');
+    expect(() => registry.register({ ...chain, blockTime: 0 })).toThrow('must be positive');
+    expect(() => registry.register({ ...chain, privacyScore: 2 })).toThrow('within 0-1');
+    expect(registry.size).toBe(0);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'bun:test';
+import { CollusionGraph } from '../src/intelligence/collusion-graph';
+
+const HOUR = 60 * 60 * 1000;
+const START = 1_700_000_000_000;
+
+describe('CollusionGraph', () => {
+  it('clusters pseudonyms paying the same stealth address', () => {
+    const graph = new CollusionGraph();
+    ['a', 'b', 'c'].forEach((key, i) => {
+      graph.record({ key, addressKey: 'addr', amount: BigInt(1000 + 137 * i), timestamp: BigInt(START + i * HOUR) });
+    });
+
+    const [cluster] = graph.clusters();
+    expect(cluster).toMatchObject({ id: 'a', size: 3, members: ['a', 'b', 'c'] });
+    expect(cluster.risk).toBeGreaterThan(0.3);
+
+    const joining = graph.assess({ key: 'd', addressKey: 'addr', amount: 9999n, timestamp: BigInt(START + 5 * HOUR) });
+    expect(joining?.size).toBe(4);
+    expect(joining!.risk).toBeGreaterThan(cluster.risk);
+  });
+
+  it('links pseudonyms that repeatedly pay in lockstep', () => {
+    const graph = new CollusionGraph();
+    for (let round = 0; round < 4; round++) {
+      ['x', 'y', 'z'].forEach((key, i) => {
+        const timestamp = BigInt(START + round * HOUR + i * 500);
+        graph.record({ key, amount: BigInt(1000 * (round + 1) + 311 * i), timestamp });
+      });
+    }
+
+    expect(graph.clusters().map(cluster => cluster.members)).toEqual([['x', 'y', 'z']]);
+  });
+
+  it('ignores signals shared by many pseudonyms', () => {
+    const graph = new CollusionGraph({ maxFanout: 10 });
+    for (let i = 0; i < 12; i++) {
+      graph.record({ key: `p${i}`, addressKey: 'merchant', amount: 5000n, timestamp: BigInt(START + i * HOUR) });
+    }
+
+    expect(graph.clusters()).toEqual([]);
+    expect(graph.assess({ key: 'p12', addressKey: 'merchant', amount: 5000n, timestamp: BigInt(START + 12 * HOUR) }))
+      .toBeUndefined();
+  });
+
+  it('does not report clusters below the minimum size', () => {
+    const graph = new CollusionGraph({ minClusterSize: 3 });
+    graph.record({ key: 'a', addressKey: 'addr', amount: 1000n, timestamp: BigInt(START) });
+    graph.record({ key: 'b', addressKey: 'addr', amount: 2000n, timestamp: BigInt(START + HOUR) });
+
+    expect(graph.clusters()).toEqual([]);
+    expect(new CollusionGraph({ minClusterSize: 2 }).assess({ key: 'a', amount: 1n, timestamp: 0n })).toBeUndefined();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'bun:test';
+import { ChainMetrics } from '../src/intelligence/chain-metrics';
+import { ChainRegistry, DEFAULT_CHAINS } from '../src/intelligence/chain-registry';
+import { FeeModel, StaticPriceSource } from '../src/intelligence/fee-model';
+
+const GWEI = 1_000_000_000n;
+const noMetrics = () => undefined;
+
+describe('FeeModel', () => {
+  const model = new FeeModel(new ChainRegistry(), new StaticPriceSource({ ETH: 3000, SOL: 150 }));
+
+  it('prices EIP-1559 fees when fee history is known', async () => {
+    const metrics: ChainMetrics = {
+      avgGasPrice: 50n * GWEI,
+      avgConfirmationBlocks: 12,
+      networkHealth: 1,
+      lastUpdated: Date.now(),
+      baseFee: 10n * GWEI,
+      priorityFee: 2n * GWEI
+    };
+    const fee = await model.estimate('ethereum', 21000n, () => metrics);
+
+    expect(fee.nativeCost).toBe(21000n * 12n * GWEI);
+    expect(fee.usdCost).toBeCloseTo(0.000252 * 3000);
+  });
+
+  it('scales the rollup data fee with the bytes posted to the settlement chain', async () => {
+    const proofBytes = 1024;
+    const proofGas = model.dataUnits('arbitrum', proofBytes);
+    const plain = await model.estimate('arbitrum', 21000n, noMetrics);
+    const withProof = await model.estimate('arbitrum', 21000n + proofGas, noMetrics, proofBytes);
+
+    expect(proofGas).toBe(16n * 1024n);
+    expect(plain.l1DataFee).toBe(1600n * 20n * GWEI);
+    expect(withProof.l1DataFee).toBe((1600n + proofGas) * 20n * GWEI);
+    expect(withProof.nativeCost).toBe((21000n + proofGas) * 10_000_000n + withProof.l1DataFee);
+  });
+
+  it('fails for a rollup whose settlement chain is not registered', async () => {
+    const registry = new ChainRegistry(DEFAULT_CHAINS.filter(chain => chain.id !== 'ethereum'));
+    const orphaned = new FeeModel(registry);
+
+    await expect(orphaned.estimate('optimism', 21000n, noMetrics)).rejects.toThrow('unregistered chain: ethereum');
+  });
+
+  it('prices Solana compute units on top of the signature fee', async () => {
+    const fee = await model.estimate('solana', 200_000n, noMetrics, 1024);
+
+    expect(model.dataUnits('solana', 1024)).toBe(0n);
+    expect(fee.l1DataFee).toBe(0n);
+    expect(fee.nativeCost).toBe(5000n + 200n);
+  });
+
+  it('reports no USD cost without a price', async () => {
+    const unpriced = new FeeModel(new ChainRegistry());
+
+    expect((await unpriced.estimate('polygon', 21000n, noMetrics)).usdCost).toBeNull();
+    await expect(unpriced.estimate('near', 21000n, noMetrics)).rejects.toThrow('unregistered chain: near');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'bun:test';
+import { FraudAssessment } from '../src/intelligence/fraud-detector';
+import { FraudCaseManager } from '../src/intelligence/fraud-cases';
+import { FraudRuleEngine, FraudRuleSet } from '../src/intelligence/fraud-rules';
+
+const RULES: FraudRuleSet = {
+  rules: [
+    { id: 'burst', weight: 0.4, conditions: [{ feature: 'frequency', op: '>', value: 0.5 }] },
+    { id: 'new_chain', weight: 0.2, conditions: [{ feature: 'chainPattern', op: '>', value: 3 }] }
+  ]
+};
+
+function assessment(firedRules: string[]): FraudAssessment {
+  return {
+    riskScore: 0.6,
+    riskLevel: 'medium',
+    anomalies: [],
+    confidence: 0.8,
+    hardLimits: [],
+    firedRules,
+    modelScores: {},
+    flagged: false
+  };
+}
+
+describe('FraudCaseManager', () => {
+  it('lists open cases and closes them once', () => {
+    const cases = new FraudCaseManager(new FraudRuleEngine({ rules: RULES }));
+    const first = cases.openCase(assessment(['burst']));
+    const second = cases.openCase(assessment(['new_chain']));
+
+    expect(cases.listOpenCases().map(c => c.id)).toEqual([first.id, second.id]);
+
+    cases.setVerdict(first.id, 'false_positive', 'known merchant');
+    expect(cases.getCase(first.id)).toMatchObject({ status: 'closed', verdict: 'false_positive', note: 'known merchant' });
+    expect(cases.listOpenCases().map(c => c.id)).toEqual([second.id]);
+    expect(() => cases.setVerdict(first.id, 'confirmed_fraud')).toThrow('already has a verdict');
+    expect(() => cases.setVerdict('case-missing', 'confirmed_fraud')).toThrow('Unknown fraud case');
+  });
+
+  it('moves rule weights with reviewed precision', () => {
+    const rules = new FraudRuleEngine({ rules: RULES });
+    const cases = new FraudCaseManager(rules, { priorStrength: 2 });
+
+    for (let i = 0; i < 3; i++) {
+      cases.setVerdict(cases.openCase(assessment(['burst'])).id, 'false_positive');
+      cases.setVerdict(cases.openCase(assessment(['new_chain'])).id, 'confirmed_fraud');
+    }
+
+    const multipliers = rules.getWeightMultipliers();
+    expect(multipliers.burst).toBeCloseTo(2 * (1 / 5));
+    expect(multipliers.new_chain).toBeCloseTo(2 * (4 / 5));
+    expect(rules.evaluate({ frequency: 0.9 }, 0.5).risk).toBeCloseTo(0.4 * 0.4);
+  });
+
+  it('reports precision, recall and alert volume per rule', () => {
+    const cases = new FraudCaseManager(new FraudRuleEngine({ rules: RULES }));
+    cases.observe(assessment(['burst']));
+    cases.observe(assessment(['burst', 'new_chain']));
+    cases.setVerdict(cases.openCase(assessment(['burst'])).id, 'confirmed_fraud');
+    cases.setVerdict(cases.openCase(assessment(['burst', 'new_chain'])).id, 'false_positive');
+
+    const metrics = Object.fromEntries(cases.getRuleMetrics().map(m => [m.ruleId, m]));
+    expect(metrics.burst).toMatchObject({ alerts: 2, reviewed: 2, precision: 0.5, recall: 1 });
+    expect(metrics.new_chain).toMatchObject({ alerts: 1, reviewed: 1, precision: 0, recall: 0, falseNegatives: 1 });
+  });
+
+  it('forgets the oldest closed cases beyond the cap', () => {
+    const cases = new FraudCaseManager(new FraudRuleEngine({ rules: RULES }), { maxClosedCases: 1 });
+    const first = cases.setVerdict(cases.openCase(assessment([])).id, 'false_positive');
+    const second = cases.setVerdict(cases.openCase(assessment([])).id, 'false_positive');
+
+    expect(cases.getCase(first.id)).toBeUndefined();
+    expect(cases.getCase(second.id)).toBeDefined();
+  });
+});
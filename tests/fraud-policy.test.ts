@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'bun:test';
+import { FraudAssessment } from '../src/intelligence/fraud-detector';
+import { FraudDecisionPolicy, PaymentBlockedError } from '../src/intelligence/fraud-policy';
+
+function assessment(riskScore: number, overrides: Partial<FraudAssessment> = {}): FraudAssessment {
+  return {
+    riskScore,
+    riskLevel: 'low',
+    anomalies: [],
+    confidence: 0.8,
+    hardLimits: [],
+    firedRules: [],
+    modelScores: {},
+    flagged: false,
+    ...overrides
+  };
+}
+
+describe('FraudDecisionPolicy', () => {
+  const policy = new FraudDecisionPolicy({ holdDuration: 5000, minReputation: 70 });
+
+  it('escalates with the risk score', () => {
+    expect(policy.decide(assessment(0.1)).action).toBe('allow');
+    expect(policy.decide(assessment(0.5)).action).toBe('step_up_privacy');
+    expect(policy.decide(assessment(0.65))).toMatchObject({ action: 'require_reputation', minReputation: 70 });
+    expect(policy.decide(assessment(0.75))).toMatchObject({ action: 'hold', holdFor: 5000 });
+    expect(policy.decide(assessment(0.9)).action).toBe('block');
+  });
+
+  it('applies per transaction type thresholds', () => {
+    const strict = new FraudDecisionPolicy({ thresholds: { governance: { requireReputation: 0.45, hold: 0.5, block: 0.6 } } });
+
+    expect(strict.decide(assessment(0.55), 'payment').action).toBe('step_up_privacy');
+    expect(strict.decide(assessment(0.55), 'governance').action).toBe('hold');
+  });
+
+  it('holds at least on hard limits and flagged assessments', () => {
+    const breach = { window: '1h', limit: 'count' as const, value: 11n, max: 10n };
+
+    expect(policy.decide(assessment(0.1, { hardLimits: [breach] })).action).toBe('hold');
+    expect(policy.decide(assessment(0.5, { flagged: true })).action).toBe('hold');
+    expect(policy.decide(assessment(0.9, { flagged: true })).action).toBe('block');
+    expect(new FraudDecisionPolicy({ flaggedAction: 'block' }).decide(assessment(0.5, { flagged: true })).action)
+      .toBe('block');
+  });
+
+  it('rejects thresholds out of range or out of order', () => {
+    expect(() => new FraudDecisionPolicy({ defaults: { block: 1.5 } })).toThrow('within 0-1');
+    expect(() => new FraudDecisionPolicy({ thresholds: { payment: { hold: 0.9 } } })).toThrow('must escalate');
+  });
+
+  it('says why a payment was refused', () => {
+    const risky = assessment(0.75, { anomalies: ['large_payment_burst'] });
+
+    expect(new PaymentBlockedError(policy.decide(risky), risky).message)
+      .toBe('Payment held for 5000ms by fraud policy (risk 0.75: large_payment_burst)');
+    expect(new PaymentBlockedError(policy.decide(assessment(0.9)), assessment(0.9)).message)
+      .toBe('Payment blocked by fraud policy (risk 0.90)');
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FraudRuleEngine, FraudRuleSet } from '../src/intelligence/fraud-rules';
+
+const RULES: FraudRuleSet = {
+  version: 'test-1',
+  defaultAnomalyWeight: 0.1,
+  rules: [
+    {
+      id: 'large_burst',
+      anomaly: 'large_payment_burst',
+      weight: 0.4,
+      minSensitivity: 0.3,
+      conditions: [
+        { feature: 'amountCategory', op: '>=', value: 4 },
+        { feature: 'frequency', op: '>', value: 0.5 }
+      ]
+    },
+    { id: 'new_chain', weight: 0.2, conditions: [{ feature: 'chainPattern', op: '>', value: 3 }] }
+  ]
+};
+
+describe('FraudRuleEngine', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'fraud-rules-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('fires rules whose conditions all hold, above their sensitivity gate', () => {
+    const engine = new FraudRuleEngine({ rules: RULES });
+    const features = { amountCategory: 4, frequency: 0.8, chainPattern: 5 };
+
+    expect(engine.evaluate(features, 0.5)).toEqual({
+      firedRules: ['large_burst', 'new_chain'],
+      anomalies: ['large_payment_burst'],
+      risk: 0.4 + 0.2
+    });
+    expect(engine.evaluate(features, 0.2).firedRules).toEqual(['new_chain']);
+    expect(engine.evaluate({ ...features, frequency: 0.2 }, 0.5).firedRules).toEqual(['new_chain']);
+  });
+
+  it('scales fired weights by review multipliers', () => {
+    const engine = new FraudRuleEngine({ rules: RULES });
+    engine.setWeightMultiplier('new_chain', 0.5);
+
+    expect(engine.evaluate({ chainPattern: 5 }, 0.5).risk).toBeCloseTo(0.1);
+    expect(engine.getWeightMultipliers()).toEqual({ new_chain: 0.5 });
+    expect(() => engine.setWeightMultiplier('new_chain', -1)).toThrow('non-negative');
+  });
+
+  it('rejects invalid rule sets with the offending rule named', () => {
+    const rule = RULES.rules[1];
+    expect(() => FraudRuleEngine.validate({ rules: [rule, rule] })).toThrow('duplicate id');
+    expect(() => FraudRuleEngine.validate({ rules: [{ ...rule, weight: 2 }] })).toThrow('new_chain: weight');
+    expect(() => FraudRuleEngine.validate({
+      rules: [{ ...rule, conditions: [{ feature: 'shoeSize', op: '>', value: 1 }] }]
+    })).toThrow('unknown feature shoeSize');
+    expect(() => FraudRuleEngine.validate({ rules: [{ ...rule, conditions: [] }] })).toThrow('at least one condition');
+  });
+
+  it('loads YAML files and keeps the active rules when a reload is invalid', () => {
+    const path = join(dir, 'rules.yaml');
+    writeFileSync(path, [
+      'version: "2024-06-01"',
+      'rules:',
+      '  - id: new_chain',
+      '    weight: 0.2',
+      '    conditions:',
+      '      - { feature: chainPattern, op: ">", value: 3 }'
+    ].join('\n'));
+
+    const engine = new FraudRuleEngine({ path });
+    expect(engine.getRules().version).toBe('2024-06-01');
+
+    writeFileSync(path, 'rules: [{ id: broken }]');
+    expect(() => engine.reload()).toThrow('rule broken');
+    expect(engine.getRules().version).toBe('2024-06-01');
+  });
+
+  it('falls back to the built-in rules when FRAUD_RULES_PATH is missing and reports it', () => {
+    const errors: Error[] = [];
+    const engine = FraudRuleEngine.fromEnv({ FRAUD_RULES_PATH: join(dir, 'missing.yaml') }, error => errors.push(error));
+
+    expect(engine.getRules().rules.length).toBeGreaterThan(0);
+    expect(engine.getLoadError()?.message).toContain('not found');
+    expect(errors).toHaveLength(1);
+    expect(FraudRuleEngine.fromEnv({}).getLoadError()).toBeUndefined();
+  });
+});
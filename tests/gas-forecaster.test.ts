@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'bun:test';
+import { GasForecaster } from '../src/intelligence/gas-forecaster';
+
+const START = 1_700_000_000_000;
+const STEP = 10_000;
+
+function record(forecaster: GasForecaster, prices: number[]): number {
+  prices.forEach((price, i) => forecaster.recordSample('ethereum', BigInt(price), START + i * STEP));
+  return START + (prices.length - 1) * STEP;
+}
+
+describe('GasForecaster', () => {
+  it('extrapolates the trend over the horizon', () => {
+    const forecaster = new GasForecaster({ window: 300_000 });
+    const last = record(forecaster, Array.from({ length: 20 }, (_, i) => 100 + 10 * i));
+
+    const near = forecaster.forecast('ethereum', 10_000, last)!;
+    const far = forecaster.forecast('ethereum', 60_000, last)!;
+
+    expect(near.horizon).toBe(10_000);
+    expect(near.current).toBe(290n);
+    expect(near.predicted).toBeGreaterThan(near.current);
+    expect(far.predicted).toBeGreaterThan(near.predicted);
+  });
+
+  it('never predicts a negative price', () => {
+    const forecaster = new GasForecaster({ window: 300_000 });
+    const last = record(forecaster, Array.from({ length: 20 }, (_, i) => 200 - 10 * i));
+
+    expect(forecaster.forecast('ethereum', 300_000, last)!.predicted).toBe(0n);
+  });
+
+  it('drops samples older than the window at forecast time', () => {
+    const forecaster = new GasForecaster({ window: 60_000 });
+    const last = record(forecaster, [100, 100, 100, 100, 100, 100, 100]);
+
+    expect(forecaster.forecast('ethereum', 10_000, last)!.sampleCount).toBe(7);
+    expect(forecaster.forecast('ethereum', 10_000, last + 30_000)!.sampleCount).toBe(4);
+    expect(forecaster.forecast('ethereum', 10_000, last + 120_000)).toBeNull();
+    expect(forecaster.recommend('ethereum', { now: last + 120_000 })).toBeNull();
+  });
+
+  it('ignores samples that are not newer than the last one', () => {
+    const forecaster = new GasForecaster();
+    forecaster.recordSample('polygon', 100n, START);
+    forecaster.recordSample('polygon', 100n, START);
+    forecaster.recordSample('polygon', 300n, START - 1000);
+
+    expect(forecaster.getSamples('polygon')).toEqual([{ timestamp: START, gasPrice: 100n }]);
+  });
+
+  it('waits out a spike and sends at the usual price', () => {
+    const forecaster = new GasForecaster({ window: 300_000, minSamples: 5 });
+    const spike = record(forecaster, [100, 102, 98, 101, 99, 100, 103, 97, 100, 200]);
+
+    const wait = forecaster.recommend('ethereum', { now: spike })!;
+    expect(wait.action).toBe('wait');
+    expect(wait.expectedSavings).toBeGreaterThan(0.1);
+    expect(wait.expectedWait).toBeLessThan(300_000);
+
+    const steady = new GasForecaster({ window: 300_000, minSamples: 5 });
+    const last = record(steady, [100, 102, 98, 101, 99, 100]);
+    expect(steady.recommend('ethereum', { now: last })!.action).toBe('send_now');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'bun:test';
+import { PatternStore } from '../src/intelligence/pattern-store';
+import { PrivateFeatureStore } from '../src/intelligence/private-features';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const START = 1_700_000_000_000;
+
+function payment(amount: bigint, time: number, chain: string = 'ethereum') {
+  return { amount, timestamp: BigInt(time), chain };
+}
+
+describe('PatternStore', () => {
+  it('keeps running amount and interval statistics', () => {
+    const store = new PatternStore();
+    store.record('a', payment(100n, START));
+    store.record('a', payment(200n, START + HOUR, 'polygon'));
+    store.record('a', payment(300n, START + 3 * HOUR));
+
+    expect(store.get('a')).toEqual({
+      count: 3,
+      amountMean: 200,
+      amountVariance: 20000 / 3,
+      intervalCount: 2,
+      intervalMean: 1.5 * HOUR,
+      intervalVariance: Math.pow(0.5 * HOUR, 2),
+      chains: new Map([['ethereum', 2], ['polygon', 1]]),
+      firstSeen: START,
+      lastSeen: START + 3 * HOUR
+    });
+  });
+
+  it('forgets pseudonyms idle past the TTL', () => {
+    const store = new PatternStore({ ttl: DAY });
+    store.record('a', payment(100n, START));
+
+    expect(store.get('a', START + DAY)).toBeDefined();
+    expect(store.get('a', START + 2 * DAY)).toBeUndefined();
+
+    // An expired history restarts instead of bridging the idle gap
+    store.record('b', payment(100n, START));
+    store.record('b', payment(100n, START + 2 * DAY));
+    expect(store.get('b')).toMatchObject({ count: 1, intervalCount: 0 });
+  });
+
+  it('evicts the least recently active pseudonyms beyond the cap', () => {
+    const store = new PatternStore({ maxPseudonyms: 2 });
+    store.record('a', payment(1n, START));
+    store.record('b', payment(1n, START + 1));
+    store.record('a', payment(1n, START + 2));
+    store.record('c', payment(1n, START + 3));
+
+    expect(store.size()).toBe(2);
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('a')?.count).toBe(2);
+  });
+});
+
+describe('PrivateFeatureStore bounds', () => {
+  const pseudonym = (fill: number) => new Uint8Array(32).fill(fill);
+
+  it('expires idle pseudonyms and caps how many are kept', () => {
+    const store = new PrivateFeatureStore({ ttl: DAY, maxPseudonyms: 2 });
+    store.record({ pseudonym: pseudonym(1), amount: 1000n, timestamp: BigInt(START), chain: 'ethereum' });
+    store.record({ pseudonym: pseudonym(2), amount: 1000n, timestamp: BigInt(START + HOUR), chain: 'ethereum' });
+    store.record({ pseudonym: pseudonym(3), amount: 1000n, timestamp: BigInt(START + 2 * HOUR), chain: 'ethereum' });
+    expect(store.size()).toBe(2);
+
+    store.record({ pseudonym: pseudonym(4), amount: 1000n, timestamp: BigInt(START + 3 * DAY), chain: 'ethereum' });
+    expect(store.size()).toBe(1);
+  });
+});
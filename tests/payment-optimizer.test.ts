@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'bun:test';
+import { ChainMetrics, ChainMetricsProvider } from '../src/intelligence/chain-metrics';
+import { AIPaymentRouter } from '../src/intelligence/payment-optimizer';
+
+function metrics(avgGasPrice: bigint): ChainMetrics {
+  return { avgGasPrice, avgConfirmationBlocks: 12, networkHealth: 0.99, lastUpdated: Date.now() };
+}
+
+class CountingProvider implements ChainMetricsProvider {
+  fetches: string[] = [];
+
+  constructor(private result: (chain: string) => ChainMetrics | null) {}
+
+  supportedChains(): string[] {
+    return ['ethereum', 'polygon'];
+  }
+
+  async fetchMetrics(chain: string): Promise<ChainMetrics | null> {
+    this.fetches.push(chain);
+    return this.result(chain);
+  }
+}
+
+describe('AIPaymentRouter', () => {
+  const options = { amount: 1000n, privacyLevel: 'medium' as const, preferredChains: ['ethereum', 'polygon'] };
+
+  it('refreshes stale metrics before routing and marks routes on fresh metrics', async () => {
+    const provider = new CountingProvider(() => metrics(1_000_000_000n));
+    const router = new AIPaymentRouter({ metricsProvider: provider, gasForecaster: false });
+
+    const route = await router.findOptimalRoute(options);
+    expect(provider.fetches.sort()).toEqual(['ethereum', 'polygon']);
+    expect(route.metricsStale).toBe(false);
+
+    // Fresh metrics are not fetched again
+    await router.findOptimalRoute(options);
+    expect(provider.fetches).toHaveLength(2);
+  });
+
+  it('backs off chains whose fetch failed and ranks them on stale metrics', async () => {
+    const provider = new CountingProvider(() => null);
+    const router = new AIPaymentRouter({ metricsProvider: provider, gasForecaster: false, refreshBackoff: 60_000 });
+
+    const route = await router.findOptimalRoute(options);
+    await router.findOptimalRoute(options);
+
+    expect(provider.fetches).toHaveLength(2);
+    expect(route.metricsStale).toBe(true);
+  });
+
+  it('keeps the deprecated updateHistory feeding the outcome ledger', async () => {
+    const router = new AIPaymentRouter({ gasForecaster: false });
+    const route = await router.findOptimalRoute({ amount: 1000n, privacyLevel: 'medium', targetChain: 'polygon' });
+
+    router.updateHistory('polygon', route, 1000n);
+
+    const [stats] = router.getLedger().getStats('polygon');
+    expect(stats).toMatchObject({ observations: 1, successes: 1, avgGas: route.estimatedGas });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'bun:test';
+import { AIPaymentRouter } from '../src/intelligence/payment-optimizer';
+import { DEFAULT_DENOMINATIONS, splitAmount } from '../src/intelligence/payment-splitter';
+
+const USDC = 1_000_000n;
+
+function sum(parts: { amount: bigint }[]): bigint {
+  return parts.reduce((total, part) => total + part.amount, 0n);
+}
+
+describe('splitAmount', () => {
+  it('decomposes into standard denominations, largest first', () => {
+    const parts = splitAmount(1650n * USDC);
+
+    expect(parts.map(part => part.amount)).toEqual([1000n * USDC, 500n * USDC, 100n * USDC, 50n * USDC]);
+    expect(parts.every(part => part.standardDenomination)).toBe(true);
+  });
+
+  it('keeps dust below the smallest denomination as its own leg', () => {
+    const parts = splitAmount(101n * USDC + 250_000n);
+
+    expect(parts.map(part => part.amount)).toEqual([100n * USDC, USDC, 250_000n]);
+    expect(parts[2].standardDenomination).toBe(false);
+  });
+
+  it('merges the smallest parts to respect the leg limit', () => {
+    const parts = splitAmount(1666n * USDC, DEFAULT_DENOMINATIONS, 3);
+
+    expect(parts).toHaveLength(3);
+    expect(parts.slice(0, 2).map(part => part.amount)).toEqual([1000n * USDC, 500n * USDC]);
+    expect(sum(parts)).toBe(1666n * USDC);
+  });
+
+  it('splits huge amounts evenly instead of merging thousands of parts', () => {
+    const parts = splitAmount(1_000_000n * USDC, DEFAULT_DENOMINATIONS, 4);
+
+    expect(parts.map(part => part.amount)).toEqual(Array(4).fill(250_000n * USDC));
+  });
+
+  it('returns nothing for non-positive amounts', () => {
+    expect(splitAmount(0n)).toEqual([]);
+  });
+});
+
+describe('AIPaymentRouter.findSplitRoute', () => {
+  const router = new AIPaymentRouter({ gasForecaster: false });
+
+  it('spreads legs over several eligible chains and keeps the total', async () => {
+    const split = await router.findSplitRoute({ amount: 1650n * USDC, privacyLevel: 'medium', maxLegs: 4 });
+
+    expect(split.legs).toHaveLength(4);
+    expect(sum(split.legs)).toBe(split.totalAmount);
+    expect(split.chains.length).toBeGreaterThan(1);
+    expect(split.totalGas).toBe(split.legs.reduce((total, leg) => total + leg.route.estimatedGas, 0n));
+  });
+
+  it('keeps payments below the threshold in one leg', async () => {
+    const split = await router.findSplitRoute({ amount: 20n * USDC, privacyLevel: 'medium' });
+
+    expect(split.legs).toHaveLength(1);
+    expect(split.legs[0].standardDenomination).toBe(false);
+  });
+});
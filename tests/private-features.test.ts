@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'bun:test';
+import { PaymentData } from '../src/intelligence/fraud-detector';
+import { PrivateFeatureStore, categorizeAmount } from '../src/intelligence/private-features';
+
+const MINUTE = 60 * 1000;
+const START = 1_700_000_000_000;
+
+function payment(amount: bigint, time: number, chain: string = 'ethereum'): PaymentData {
+  return { pseudonym: new Uint8Array(32).fill(1), amount, timestamp: BigInt(time), chain };
+}
+
+describe('PrivateFeatureStore', () => {
+  it('starts unknown pseudonyms from neutral features', () => {
+    const store = new PrivateFeatureStore();
+
+    expect(store.extract(payment(5000n, START))).toEqual({
+      amountCategory: 1,
+      timePattern: 0,
+      chainPattern: 1,
+      frequency: 0,
+      amountDeviation: 0
+    });
+  });
+
+  it('detects regular timing, frequency and new chains from coarse history', () => {
+    const store = new PrivateFeatureStore();
+    for (let i = 0; i < 5; i++) {
+      store.record(payment(5000n, START + i * 10 * MINUTE));
+    }
+
+    const features = store.extract(payment(5000n, START + 50 * MINUTE, 'polygon'));
+    expect(features.timePattern).toBe(1);
+    expect(features.frequency).toBeCloseTo(0.5);
+    expect(features.chainPattern).toBe(2);
+    expect(features.amountDeviation).toBeCloseTo(0);
+
+    store.record(payment(5000n, START + 41 * MINUTE));
+    expect(store.extract(payment(5000n, START + 60 * MINUTE)).timePattern).toBe(0);
+  });
+
+  it('measures amount deviation on half-decade buckets', () => {
+    const store = new PrivateFeatureStore();
+    store.record(payment(1000n, START));
+    store.record(payment(1200n, START + MINUTE));
+
+    expect(store.extract(payment(1100n, START + 2 * MINUTE)).amountDeviation).toBeCloseTo(0);
+    expect(store.extract(payment(1_000_000n, START + 2 * MINUTE)).amountDeviation).toBe(1);
+  });
+
+  it('adds seeded Laplace noise when a privacy budget is set', () => {
+    const noisy = (seed: number) => {
+      const store = new PrivateFeatureStore({ epsilon: 0.5, seed });
+      for (let i = 0; i < 3; i++) {
+        store.record(payment(5000n, START + i * MINUTE));
+      }
+      return store.extract(payment(5000n, START + 3 * MINUTE)).frequency;
+    };
+
+    expect(noisy(11)).toBe(noisy(11));
+    expect(noisy(11)).not.toBeCloseTo(0.3, 5);
+  });
+
+  it('buckets amounts without keeping them', () => {
+    expect(PrivateFeatureStore.amountBucket(1000n)).toBe(6);
+    expect(PrivateFeatureStore.amountBucket(3200n)).toBe(7);
+    expect(PrivateFeatureStore.amountBucket(10n ** 30n)).toBe(60);
+    expect(categorizeAmount(999n)).toBe(0);
+    expect(categorizeAmount(5_000_000n)).toBe(4);
+  });
+});
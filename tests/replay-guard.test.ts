@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'bun:test';
+import { ReplayGuard } from '../src/intelligence/replay-guard';
+
+const pseudonym = new Uint8Array(32).fill(1);
+
+function commitment(i: number): Uint8Array {
+  const bytes = new Uint8Array(32).fill(0xaa);
+  new DataView(bytes.buffer).setUint32(0, i + 1);
+  return bytes;
+}
+
+function payment(i: number, time: number) {
+  return { pseudonym, amount: 1000n, timestamp: BigInt(time), commitment: commitment(i) };
+}
+
+describe('ReplayGuard', () => {
+  it('rejects all-zero placeholder commitments', () => {
+    expect(() => ReplayGuard.assertCommitment(new Uint8Array(32))).toThrow('placeholder');
+    expect(() => ReplayGuard.assertCommitment(commitment(0))).not.toThrow();
+  });
+
+  it('answers exactly for recent commitments', () => {
+    const guard = new ReplayGuard({ window: 1000 });
+    guard.record(payment(0, 100));
+
+    expect(guard.check(payment(0, 200)).commitment).toBe('exact');
+    expect(guard.check(payment(1, 200)).commitment).toBe(false);
+    expect(guard.check(payment(0, 1200)).commitment).toBe(false);
+  });
+
+  it('flags double submissions to the same stealth address', () => {
+    const guard = new ReplayGuard({ window: 1000 });
+    const stealthAddress = new Uint8Array(32).fill(9);
+    guard.record({ ...payment(0, 100), stealthAddress });
+
+    expect(guard.check({ ...payment(1, 150), stealthAddress }).payment).toBe('exact');
+    expect(guard.check({ ...payment(1, 150), stealthAddress, amount: 999n }).payment).toBe(false);
+  });
+
+  it('falls back to the Bloom filter once the exact set evicts', () => {
+    const guard = new ReplayGuard({ window: 1000, maxExact: 10, expectedItems: 1000 });
+    for (let i = 0; i < 100; i++) {
+      guard.record(payment(i, 100 + i));
+    }
+
+    // Evicted commitments are still remembered, but only probably
+    expect(guard.check(payment(0, 1050)).commitment).toBe('probable');
+    expect(guard.check(payment(99, 1050)).commitment).toBe('exact');
+
+    let falsePositives = 0;
+    for (let i = 1000; i < 2000; i++) {
+      if (guard.check(payment(i, 1050)).commitment !== false) falsePositives++;
+    }
+    expect(falsePositives).toBeLessThan(5);
+  });
+
+  it('does not rotate the filter on lookups', () => {
+    const guard = new ReplayGuard({ window: 1000, maxExact: 10, expectedItems: 1000 });
+    for (let i = 0; i < 100; i++) {
+      guard.record(payment(i, 100 + i));
+    }
+
+    // A check far in the future must not wipe the generations
+    expect(guard.check(payment(0, 1_000_000)).commitment).toBe(false);
+    expect(guard.check(payment(0, 1050)).commitment).toBe('probable');
+  });
+
+  it('forgets a generation two rotations later', () => {
+    const guard = new ReplayGuard({ window: 1000, maxExact: 10, expectedItems: 1000 });
+    guard.record(payment(0, 100));
+
+    // Fill the next generation so the exact set keeps evicting in-window entries
+    for (let i = 1; i < 50; i++) {
+      guard.record(payment(i, 1900 + i));
+    }
+
+    expect(guard.check(payment(1, 2050)).commitment).toBe('probable');
+    expect(guard.check(payment(0, 2050)).commitment).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AIReputationLearner, PaymentPattern, TrainingData } from '../src/intelligence/reputation-learner';
+import { MODEL_TYPES, createReputationBackend } from '../src/intelligence/reputation-backends';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function history(index: number, count: number, success: number): PaymentPattern[] {
+  const start = Date.now() - count * DAY;
+  return Array.from({ length: count }, (_, i) => ({
+    pseudonym: new Uint8Array([index]),
+    amount: BigInt(1000 * (1 + (index % 7))),
+    timestamp: BigInt(start + i * DAY),
+    chain: i % 2 === 0 ? 'ethereum' : 'polygon',
+    success: i / count < success
+  }));
+}
+
+function trainingData(): TrainingData {
+  return {
+    samples: Array.from({ length: 40 }, (_, index) => {
+      const success = (index % 10) / 10;
+      return { payments: history(index, 2 + (index % 9), success), label: Math.round(100 * success) };
+    })
+  };
+}
+
+describe('reputation backends', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'reputation-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('rejects unknown model types', () => {
+    expect(() => createReputationBackend('svm' as never)).toThrow('Unknown reputation model type');
+  });
+
+  for (const modelType of MODEL_TYPES) {
+    it(`round-trips a trained ${modelType} model through save and load`, async () => {
+      const training = { epochs: 20, trees: 5, seed: 7 };
+      const trained = new AIReputationLearner({ modelType, training, modelPath: join(dir, 'model.json') });
+      await trained.train(trainingData());
+      const artifact = trained.save();
+
+      const restored = new AIReputationLearner({ modelType, training, modelPath: join(dir, 'model.json') });
+      expect(restored.load().hash).toBe(artifact.hash);
+
+      for (const index of [3, 15, 28]) {
+        const payments = history(index, 6, 0.5);
+        const expected = await trained.predict(payments[0].pseudonym, payments);
+        const actual = await restored.predict(payments[0].pseudonym, payments);
+        expect(actual.score).toBe(expected.score);
+      }
+    });
+  }
+
+  it('rejects an artifact saved by another backend', async () => {
+    const path = join(dir, 'model.json');
+    const learner = new AIReputationLearner({ modelType: 'logistic_regression', training: { epochs: 5, seed: 1 }, modelPath: path });
+    await learner.train(trainingData());
+    learner.save();
+
+    expect(() => new AIReputationLearner({ modelType: 'random_forest', modelPath: path }).load()).toThrow();
+  });
+
+  it('checkpoints the final epoch whatever the backend ran', async () => {
+    const learner = new AIReputationLearner({
+      modelType: 'random_forest',
+      training: { trees: 7, seed: 3 },
+      checkpointDir: join(dir, 'checkpoints'),
+      checkpointEvery: 5
+    });
+    await learner.train(trainingData());
+
+    expect(learner.listCheckpoints().map(checkpoint => checkpoint.epoch)).toEqual([5, 7]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'bun:test';
+import { AIReputationLearner } from '../src/intelligence/reputation-learner';
+import { calibrationCurve, holdout, kFolds, regressionMetrics } from '../src/intelligence/reputation-evaluation';
+import { mulberry32 } from '../src/intelligence/random';
+
+describe('reputation evaluation', () => {
+  it('computes regression error against labels', () => {
+    const metrics = regressionMetrics([
+      { label: 20, score: 30, confidence: 0.5 },
+      { label: 60, score: 50, confidence: 0.5 },
+      { label: 100, score: 100, confidence: 0.5 }
+    ]);
+
+    expect(metrics.mae).toBeCloseTo(20 / 3);
+    expect(metrics.rmse).toBeCloseTo(Math.sqrt(200 / 3));
+    expect(metrics.r2).toBeCloseTo(1 - 200 / 3200);
+    expect(regressionMetrics([{ label: 50, score: 40, confidence: 1 }]).r2).toBeNull();
+  });
+
+  it('bins predictions by confidence and measures calibration error', () => {
+    const report = calibrationCurve([
+      { label: 50, score: 52, confidence: 0.15 },
+      { label: 50, score: 80, confidence: 0.15 },
+      { label: 50, score: 55, confidence: 0.95 }
+    ], 10, 5);
+
+    expect(report.bins.map(bin => [bin.minConfidence, bin.count, bin.hitRate])).toEqual([[0, 2, 0.5], [0.8, 1, 1]]);
+    expect(report.expectedCalibrationError).toBeCloseTo((2 * 0.35 + 0.05) / 3);
+  });
+
+  it('rejects calibration bins that are not positive integers', () => {
+    const predictions = [{ label: 50, score: 50, confidence: 0.5 }];
+
+    expect(() => calibrationCurve(predictions, 10, 0)).toThrow('positive integer');
+    expect(() => calibrationCurve(predictions, 10, -3)).toThrow('positive integer');
+    expect(() => calibrationCurve(predictions, 10, 2.5)).toThrow('positive integer');
+    expect(() => calibrationCurve(predictions, -1, 10)).toThrow('tolerance');
+  });
+
+  it('partitions every sample into exactly one fold', () => {
+    const folds = kFolds(10, 3, mulberry32(1));
+
+    expect(folds.map(fold => fold.length)).toEqual([4, 3, 3]);
+    expect(folds.flat().sort((a, b) => a - b)).toEqual(Array.from({ length: 10 }, (_, i) => i));
+    expect(kFolds(10, 3, mulberry32(1))).toEqual(folds);
+    expect(() => kFolds(3, 5, mulberry32(1))).toThrow('Cannot split');
+  });
+
+  it('holds out the validation share', () => {
+    expect(new Set(holdout(20, 0.25, mulberry32(2))).size).toBe(5);
+    expect(() => holdout(20, 0, mulberry32(2))).toThrow('Validation split');
+  });
+
+  it('rejects invalid calibration options before training', async () => {
+    const learner = new AIReputationLearner();
+    const data = { samples: [] };
+
+    await expect(learner.evaluate(data, { calibrationBins: 0 })).rejects.toThrow('Calibration bins');
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AIReputationLearner, PaymentPattern, TrainingData } from '../src/intelligence/reputation-learner';
+import { REPUTATION_FEATURES } from '../src/intelligence/reputation-model';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function history(index: number, count: number, success: number): PaymentPattern[] {
+  const start = Date.now() - count * DAY;
+  return Array.from({ length: count }, (_, i) => ({
+    pseudonym: new Uint8Array([index]),
+    amount: BigInt(1000 * (1 + (index % 7))),
+    timestamp: BigInt(start + i * DAY),
+    chain: i % 2 === 0 ? 'ethereum' : 'polygon',
+    success: i / count < success
+  }));
+}
+
+function trainingData(): TrainingData {
+  return {
+    samples: Array.from({ length: 40 }, (_, index) => {
+      const success = (index % 10) / 10;
+      return { payments: history(index, 2 + (index % 9), success), label: Math.round(100 * success) };
+    })
+  };
+}
+
+describe('AIReputationLearner persistence', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'reputation-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips a trained model through save and load', async () => {
+    const path = join(dir, 'model.json');
+    const trained = new AIReputationLearner({ training: { epochs: 20, seed: 7 }, modelPath: path });
+    await trained.train(trainingData());
+    const artifact = trained.save();
+
+    expect(artifact.features).toEqual(REPUTATION_FEATURES);
+    expect(artifact.metadata.samples).toBe(40);
+
+    const restored = new AIReputationLearner({ modelPath: path });
+    expect(restored.load().hash).toBe(artifact.hash);
+
+    for (const index of [3, 15, 28]) {
+      const payments = history(index, 6, 0.5);
+      const expected = await trained.predict(payments[0].pseudonym, payments);
+      const actual = await restored.predict(payments[0].pseudonym, payments);
+      expect(actual.score).toBe(expected.score);
+    }
+  });
+
+  it('rejects an edited artifact', async () => {
+    const path = join(dir, 'model.json');
+    const learner = new AIReputationLearner({ training: { epochs: 5, seed: 1 }, modelPath: path });
+    await learner.train(trainingData());
+    learner.save();
+
+    const artifact = JSON.parse(readFileSync(path, 'utf8'));
+    artifact.metadata.samples += 1;
+    writeFileSync(path, JSON.stringify(artifact));
+
+    expect(() => new AIReputationLearner({ modelPath: path }).load()).toThrow('content hash');
+  });
+
+  it('writes, prunes and rolls back to checkpoints', async () => {
+    const learner = new AIReputationLearner({
+      training: { epochs: 12, seed: 5 },
+      checkpointDir: join(dir, 'checkpoints'),
+      checkpointEvery: 2,
+      keepCheckpoints: 3
+    });
+    await learner.train(trainingData());
+
+    const checkpoints = learner.listCheckpoints();
+    expect(checkpoints.map(checkpoint => checkpoint.epoch)).toEqual([8, 10, 12]);
+    expect(learner.rollback(checkpoints[0].id).metadata.epochs).toBe(8);
+    expect(() => learner.rollback('checkpoint-missing')).toThrow('Unknown model checkpoint');
+  });
+});
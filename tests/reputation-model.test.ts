@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'bun:test';
+import { LogisticReputationModel, ReputationFeatures, featureVector } from '../src/intelligence/reputation-model';
+
+const HOUR = 60 * 60 * 1000;
+
+function features(i: number): ReputationFeatures {
+  const paymentCount = 1 + i;
+  return {
+    paymentCount,
+    totalAmount: paymentCount * 1000,
+    avgAmount: 1000,
+    successRate: (i % 10) / 10,
+    avgInterval: 24 * HOUR,
+    chainDiversity: 0.3,
+    recentActivity: 0.5
+  };
+}
+
+// 40 samples labelled 0-90 by success rate
+const samples = Array.from({ length: 40 }, (_, i) => features(i));
+const labels = samples.map(sample => Math.round(sample.successRate * 100));
+
+describe('LogisticReputationModel', () => {
+  it('fits predictions that follow the labels at the default learning rate', () => {
+    const model = new LogisticReputationModel({ seed: 1 });
+    const summary = model.fit(samples, labels);
+
+    const low = samples.filter((_, i) => labels[i] <= 20).map(sample => model.predict(sample));
+    const high = samples.filter((_, i) => labels[i] >= 70).map(sample => model.predict(sample));
+
+    expect(summary.loss).toBeLessThan(0.6);
+    expect(Math.max(...low)).toBeLessThan(Math.min(...high));
+    expect(Math.max(...high) - Math.min(...low)).toBeGreaterThan(40);
+  });
+
+  it('reduces the loss as training proceeds', () => {
+    const losses: number[] = [];
+    new LogisticReputationModel({ seed: 1, epochs: 30 }).fit(samples, labels, (_, loss) => losses.push(loss));
+
+    expect(losses).toHaveLength(30);
+    expect(losses[29]).toBeLessThan(losses[0]);
+  });
+
+  it('rejects invalid training sets and untrained predictions', () => {
+    const model = new LogisticReputationModel();
+    expect(() => model.predict(samples[0])).toThrow('not been trained');
+    expect(() => model.fit([], [])).toThrow('without samples');
+    expect(() => model.fit(samples, labels.slice(1))).toThrow('labels');
+    expect(() => model.fit(samples, labels.map(() => 150))).toThrow('0-100');
+  });
+
+  it('log-scales heavy-tailed features', () => {
+    const vector = featureVector(features(9));
+    expect(vector[0]).toBeCloseTo(Math.log1p(10));
+    expect(vector[3]).toBe(0.9);
+  });
+});
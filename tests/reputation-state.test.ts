@@ -0,0 +1,71 @@
+import { describe, expect, it, spyOn } from 'bun:test';
+import { ReputationStateStore } from '../src/intelligence/reputation-state';
+import { AIReputationLearner } from '../src/intelligence/reputation-learner';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const START = 1_700_000_000_000;
+
+function payment(time: number, success: boolean = true, chain: string = 'ethereum') {
+  return { amount: 1000n, timestamp: BigInt(time), chain, success };
+}
+
+describe('ReputationStateStore', () => {
+  it('decays aggregates by the half-life', () => {
+    const store = new ReputationStateStore({ halfLife: DAY });
+    store.record('a', payment(START));
+    store.record('a', payment(START, false, 'polygon'));
+
+    const aggregate = store.get('a', START + DAY)!;
+    expect(aggregate.payments).toBeCloseTo(1);
+    expect(aggregate.successes).toBeCloseTo(0.5);
+    expect(aggregate.amount).toBeCloseTo(1000);
+    expect(Array.from(aggregate.chains.keys())).toEqual(['ethereum', 'polygon']);
+  });
+
+  it('tracks the mean gap between in-order payments', () => {
+    const store = new ReputationStateStore({ halfLife: 1000 * DAY });
+    [0, 2, 6].forEach(hours => store.record('a', payment(START + hours * HOUR)));
+
+    const aggregate = store.get('a', START + 6 * HOUR)!;
+    expect(aggregate.intervals).toBeCloseTo(2);
+    expect(aggregate.intervalSum / aggregate.intervals).toBeCloseTo(3 * HOUR, -3);
+  });
+
+  it('adds no gap for a payment older than the newest', () => {
+    const store = new ReputationStateStore({ halfLife: 1000 * DAY });
+    store.record('a', payment(START));
+    store.record('a', payment(START + 4 * HOUR));
+    store.record('a', payment(START + HOUR));
+
+    const aggregate = store.get('a', START + 4 * HOUR)!;
+    expect(aggregate.payments).toBeCloseTo(3, 2);
+    expect(aggregate.intervals).toBeCloseTo(1);
+    expect(aggregate.intervalSum / aggregate.intervals).toBeCloseTo(4 * HOUR, -3);
+    expect(aggregate.lastPayment).toBe(START + 4 * HOUR);
+  });
+
+  it('forgets faded pseudonyms and evicts the least recently active', () => {
+    const store = new ReputationStateStore({ halfLife: DAY, minWeight: 0.01, maxPseudonyms: 2 });
+    store.record('a', payment(START));
+    store.record('b', payment(START + HOUR));
+    store.record('c', payment(START + 2 * HOUR));
+
+    expect(store.get('a', START + 2 * HOUR)).toBeUndefined();
+    expect(store.recompute(START + 30 * DAY)).toEqual({ pseudonyms: 0, forgotten: 2 });
+  });
+});
+
+describe('AIReputationLearner recompute job', () => {
+  it('does not keep the process alive', () => {
+    const setInterval = spyOn(globalThis, 'setInterval');
+    const learner = new AIReputationLearner();
+
+    learner.startRecompute(60_000);
+    const timer = setInterval.mock.results[0].value as ReturnType<typeof globalThis.setInterval>;
+    expect(timer.hasRef()).toBe(false);
+
+    learner.stopRecompute();
+    setInterval.mockRestore();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'bun:test';
+import { bytesToHex } from '@noble/hashes/utils';
+import { FraudDetector, FraudAssessment, PaymentData } from '../src/intelligence/fraud-detector';
+import { FraudRuleEngine } from '../src/intelligence/fraud-rules';
+import { RiskAttestor, verifyRiskAttestation } from '../src/intelligence/risk-attestation';
+
+const signingKey = new Uint8Array(32).fill(7);
+
+function assessment(overrides: Partial<FraudAssessment> = {}): FraudAssessment {
+  return {
+    riskScore: 0.1,
+    riskLevel: 'low',
+    anomalies: [],
+    confidence: 0.8,
+    hardLimits: [],
+    firedRules: [],
+    modelScores: {},
+    flagged: false,
+    ...overrides
+  };
+}
+
+function payment(fill: number, timestamp: number = Date.now()): PaymentData {
+  return {
+    pseudonym: new Uint8Array(32).fill(1),
+    amount: 5000n,
+    timestamp: BigInt(timestamp),
+    chain: 'ethereum',
+    commitment: new Uint8Array(32).fill(fill)
+  };
+}
+
+describe('RiskAttestor', () => {
+  const attestor = new RiskAttestor({ privateKey: signingKey });
+  const commitment = new Uint8Array(32).fill(3);
+
+  it('signs attestations that verify against the signer key', () => {
+    const attestation = attestor.attest(commitment, assessment(), 'default-1');
+
+    expect(attestation.maxRiskLevel).toBe('medium');
+    expect(verifyRiskAttestation(attestation, attestor.publicKey, {
+      commitment,
+      maxRiskLevel: 'medium',
+      policyVersion: 'default-1'
+    })).toEqual({ valid: true });
+  });
+
+  it('rejects tampered, foreign, expired or mismatched attestations', () => {
+    const attestation = attestor.attest(commitment, assessment(), 'default-1');
+    const other = new RiskAttestor();
+
+    expect(verifyRiskAttestation({ ...attestation, maxRiskLevel: 'low' }, attestor.publicKey).reason)
+      .toBe('invalid signature');
+    expect(verifyRiskAttestation(attestation, other.publicKey).reason).toBe('signed by an untrusted key');
+    expect(verifyRiskAttestation(attestation, attestor.publicKey, { now: attestation.expiresAt + 1 }).valid)
+      .toBe(false);
+    expect(verifyRiskAttestation(attestation, attestor.publicKey, { commitment: new Uint8Array(32).fill(4) }).reason)
+      .toBe('commitment mismatch');
+    expect(verifyRiskAttestation(attestation, attestor.publicKey, { maxRiskLevel: 'low' }).valid).toBe(false);
+    expect(verifyRiskAttestation(attestation, attestor.publicKey, { policyVersion: 'default-2' }).reason)
+      .toBe('policy version mismatch');
+  });
+
+  it('refuses flagged, over-limit and over-threshold assessments', () => {
+    expect(() => attestor.attest(commitment, assessment({ flagged: true }), 'default-1')).toThrow('flagged');
+    expect(() => attestor.attest(commitment, assessment({ riskLevel: 'high' }), 'default-1')).toThrow('above');
+    expect(() => attestor.attest(commitment, assessment(), 'default-1', 'critical')).toThrow('at most medium');
+    expect(() => attestor.attest(
+      commitment,
+      assessment({ hardLimits: [{ window: '1h', limit: 'amount', value: 10n, max: 5n }] }),
+      'default-1'
+    )).toThrow('hard limits');
+  });
+
+  it('refuses assessments computed for another commitment', () => {
+    const foreign = assessment({ commitment: bytesToHex(new Uint8Array(32).fill(4)) });
+    expect(() => attestor.attest(commitment, foreign, 'default-1')).toThrow('different commitment');
+  });
+});
+
+describe('FraudDetector.attest', () => {
+  it('attests a clean payment and refuses a replayed commitment', async () => {
+    const detector = new FraudDetector({ collusion: false, attestation: { privateKey: signingKey } });
+    const first = payment(5);
+    const clean = await detector.assessRisk(first);
+
+    const attestation = detector.attest(first, clean);
+    expect(verifyRiskAttestation(attestation, detector.getAttestationPublicKey(), {
+      commitment: first.commitment
+    })).toEqual({ valid: true });
+
+    detector.updatePattern(first);
+    const replayed = await detector.assessRisk(payment(5));
+    expect(replayed.firedRules).toContain('commitment_replay');
+    expect(() => detector.attest(payment(5), replayed)).toThrow();
+  });
+
+  it('binds the assessment to the payment commitment', async () => {
+    const detector = new FraudDetector({ collusion: false });
+    const assessed = await detector.assessRisk(payment(5));
+
+    expect(() => detector.attest(payment(6), assessed)).toThrow('not computed for this payment commitment');
+  });
+
+  it('changes the policy version when review feedback reweights rules', () => {
+    const rules = new FraudRuleEngine();
+    const detector = new FraudDetector({ collusion: false, rules });
+    const base = detector.getPolicyVersion();
+
+    rules.setWeightMultiplier('duplicate_payment', 0.5);
+    expect(detector.getPolicyVersion()).not.toBe(base);
+    expect(detector.getPolicyVersion().startsWith(base)).toBe(true);
+
+    rules.setWeightMultiplier('duplicate_payment', 1);
+    expect(detector.getPolicyVersion()).toBe(base);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'bun:test';
+import { BanditArm, RouteBandit } from '../src/intelligence/route-bandit';
+import { AIPaymentRouter } from '../src/intelligence/payment-optimizer';
+import { mulberry32 } from '../src/intelligence/random';
+
+// A well-observed leader and a close, never-tried runner-up
+const arms: BanditArm[] = [
+  { score: 0.8, successWeight: 0.3, alpha: 95, beta: 5, pulls: 100 },
+  { score: 0.78, successWeight: 0.3, alpha: 19, beta: 1, pulls: 0 }
+];
+
+function explorationCount(bandit: RouteBandit, rounds: number): number {
+  let explored = 0;
+  for (let i = 0; i < rounds; i++) {
+    const selection = bandit.select(arms);
+    if (selection.explored) {
+      expect(selection.index).toBe(1);
+      explored++;
+    }
+  }
+  return explored;
+}
+
+describe('RouteBandit', () => {
+  it('always exploits when greedy', () => {
+    const bandit = new RouteBandit({ strategy: 'greedy' });
+
+    expect(explorationCount(bandit, 50)).toBe(0);
+  });
+
+  for (const strategy of ['thompson', 'ucb'] as const) {
+    it(`explores unobserved arms with ${strategy} within the budget`, () => {
+      const bandit = new RouteBandit({ strategy, explorationBudget: 0.2, seed: 7 });
+      const explored = explorationCount(bandit, 200);
+
+      expect(explored).toBeGreaterThan(0);
+      expect(bandit.getExplorationRate()).toBeLessThanOrEqual(0.2);
+      expect(explored / 200).toBe(bandit.getExplorationRate());
+    });
+  }
+
+  it('makes the same choices for the same seed', () => {
+    const choices = (seed: number) => {
+      const bandit = new RouteBandit({ strategy: 'thompson', explorationBudget: 0.5, seed });
+      return Array.from({ length: 30 }, () => bandit.select(arms).index);
+    };
+
+    expect(choices(42)).toEqual(choices(42));
+  });
+
+  it('explores only among routes that meet the constraints', async () => {
+    const router = new AIPaymentRouter({
+      gasForecaster: false,
+      bandit: { strategy: 'thompson', explorationBudget: 1, seed: 3 }
+    });
+
+    for (let i = 0; i < 20; i++) {
+      const ranking = await router.rankRoutes({ amount: 1000n, privacyLevel: 'high' });
+      const eligible = ranking.candidates.filter(c => c.eligible).map(c => c.chain);
+      expect(eligible).toContain(ranking.best.chain);
+      expect(ranking.explored).toBe(ranking.best.chain !== eligible[0]);
+    }
+  });
+});
+
+describe('mulberry32', () => {
+  it('is deterministic per seed and stays within [0, 1)', () => {
+    const a = mulberry32(1);
+    const b = mulberry32(1);
+    const values = Array.from({ length: 1000 }, () => a());
+
+    expect(values.slice(0, 5)).toEqual(Array.from({ length: 5 }, () => b()));
+    expect(values.every(v => v >= 0 && v < 1)).toBe(true);
+    expect(mulberry32(2)()).not.toBe(values[0]);
+  });
+});
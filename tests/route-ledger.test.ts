@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'bun:test';
+import { RouteLedger } from '../src/intelligence/route-ledger';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('RouteLedger', () => {
+  it('falls back to the priors without observations', () => {
+    const ledger = new RouteLedger();
+
+    expect(ledger.successRate('ethereum', 1000n, 0.95)).toBe(0.95);
+    expect(ledger.gasEstimate('ethereum', 1000n, 21000n)).toBe(21000n);
+    expect(ledger.latencyEstimate('ethereum', 1000n, 12000)).toBe(12000);
+  });
+
+  it('moves estimates towards observed outcomes, shrunk by the prior', () => {
+    const ledger = new RouteLedger({ successPriorStrength: 10, estimatePriorStrength: 5 });
+    for (let i = 0; i < 10; i++) {
+      ledger.record({ chain: 'polygon', amount: 1000n, success: i < 5, actualGas: 30000n, latency: 4000 });
+    }
+
+    expect(ledger.successRate('polygon', 1000n, 0.9)).toBeCloseTo((0.9 * 10 + 5) / 20);
+    // Only confirmed payments count towards gas and latency
+    expect(ledger.gasEstimate('polygon', 1000n, 21000n)).toBe(BigInt(Math.round((21000 * 5 + 30000 * 5) / 10)));
+    expect(ledger.latencyEstimate('polygon', 1000n, 2000)).toBeCloseTo(3000);
+    expect(ledger.successRate('polygon', 1_000_000n, 0.9)).toBe(0.9);
+  });
+
+  it('decays old observations by the half-life', () => {
+    const ledger = new RouteLedger({ halfLife: DAY });
+    const now = Date.now();
+    ledger.record({ chain: 'bsc', amount: 500n, success: false, timestamp: now - 2 * DAY });
+    ledger.record({ chain: 'bsc', amount: 500n, success: true, timestamp: now });
+
+    const [stats] = ledger.getStats('bsc');
+    expect(stats.observations).toBe(2);
+    expect(stats.effectiveWeight).toBeCloseTo(1.25, 2);
+    expect(stats.successRate).toBeCloseTo(0.8, 2);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'bun:test';
+import { AIPaymentRouter } from '../src/intelligence/payment-optimizer';
+
+describe('AIPaymentRouter.rankRoutes', () => {
+  const router = new AIPaymentRouter({ gasForecaster: false });
+
+  it('lists every candidate best-first with its score breakdown', async () => {
+    const ranking = await router.rankRoutes({ amount: 1000n, privacyLevel: 'medium' });
+    const scores = ranking.candidates.map(candidate => candidate.score!);
+
+    expect(ranking.candidates.map(candidate => candidate.chain).sort()).toEqual(router.getRegistry().ids().sort());
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(ranking.best.chain).toBe(ranking.candidates[0].chain);
+    expect(ranking.fallback).toBe(false);
+
+    const { breakdown, score, stalePenalty } = ranking.candidates[0];
+    expect(breakdown!.privacy + breakdown!.success + breakdown!.cost + breakdown!.time - stalePenalty)
+      .toBeCloseTo(score!);
+  });
+
+  it('explains why chains were filtered', async () => {
+    const ranking = await router.rankRoutes({
+      amount: 1000n,
+      privacyLevel: 'high',
+      maxGasPrice: 5n,
+      preferredChains: ['ethereum', 'bsc', 'polygon', 'dogecoin']
+    });
+    const reasons = Object.fromEntries(ranking.candidates.map(c => [c.chain, c.rejectionReason]));
+
+    expect(reasons).toEqual({
+      polygon: 'over_max_gas_price',
+      ethereum: 'over_max_gas_price',
+      bsc: 'below_privacy_threshold',
+      dogecoin: 'no_metrics'
+    });
+    expect(ranking.candidates[ranking.candidates.length - 1]).toMatchObject({ chain: 'dogecoin', score: null });
+  });
+
+  it('falls back to the best scoring route with its violations', async () => {
+    const ranking = await router.rankRoutes({ amount: 1000n, privacyLevel: 'maximum', preferredChains: ['bsc'] });
+
+    expect(ranking.fallback).toBe(true);
+    expect(ranking.best).toMatchObject({ chain: 'bsc', fallback: true, constraintViolations: ['below_privacy_threshold'] });
+  });
+
+  it('falls back to a default route when no chain has metrics', async () => {
+    const ranking = await router.rankRoutes({ amount: 1000n, privacyLevel: 'medium', preferredChains: ['dogecoin'] });
+
+    expect(ranking.best).toMatchObject({ chain: 'ethereum', fallback: true, constraintViolations: ['no_metrics'] });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'bun:test';
+import { PaymentRoute } from '../src/intelligence/payment-optimizer';
+import { MODE_WEIGHTS, WeightedRouteScorer, isOptimizationMode, routeCostUsd } from '../src/intelligence/route-scoring';
+
+function route(chain: string, overrides: Partial<PaymentRoute>): PaymentRoute {
+  return { chain, estimatedGas: 21000n, privacyScore: 0.5, successRate: 0.95, estimatedTime: 60_000, ...overrides };
+}
+
+// Fast but leaky, cheap and slow, private but costly
+const routes = [
+  route('fast', { estimatedTime: 5_000, privacyScore: 0.4, estimatedGas: 60_000n }),
+  route('cheap', { estimatedTime: 120_000, privacyScore: 0.5, estimatedGas: 21_000n }),
+  route('private', { estimatedTime: 90_000, privacyScore: 0.95, estimatedGas: 80_000n })
+];
+
+function best(scorer: WeightedRouteScorer, candidates: PaymentRoute[] = routes): string {
+  const scores = scorer.score(candidates);
+  return candidates[scores.indexOf(scores.reduce((a, b) => (b.total > a.total ? b : a)))].chain;
+}
+
+describe('WeightedRouteScorer', () => {
+  it('picks the route each mode optimizes for', () => {
+    expect(best(new WeightedRouteScorer('speed'))).toBe('fast');
+    expect(best(new WeightedRouteScorer('cost'))).toBe('cheap');
+    expect(best(new WeightedRouteScorer('privacy'))).toBe('private');
+  });
+
+  it('reports weighted terms that sum to the total', () => {
+    const [score] = new WeightedRouteScorer('balanced').score(routes);
+    const { privacy, success, cost, time } = score.terms;
+
+    expect(privacy + success + cost + time).toBeCloseTo(score.total);
+    expect(privacy).toBeCloseTo(MODE_WEIGHTS.balanced.privacy * 0.4);
+    expect(time).toBeCloseTo(MODE_WEIGHTS.balanced.time);
+  });
+
+  it('normalizes custom weights and drops negative ones', () => {
+    const scorer = new WeightedRouteScorer('balanced', { privacy: 2, success: 1, cost: 1, time: -5 });
+
+    expect(scorer.weights).toEqual({ privacy: 0.5, success: 0.25, cost: 0.25, time: 0 });
+    expect(new WeightedRouteScorer('speed', { privacy: 0, success: 0, cost: 0, time: 0 }).weights)
+      .toEqual(MODE_WEIGHTS.balanced);
+  });
+
+  it('compares USD cost including bridge hops when every route is priced', () => {
+    const fee = (usdCost: number) => ({
+      chain: 'x', gasUnits: 21000n, baseFee: 0n, priorityFee: 0n, l1DataFee: 0n,
+      nativeCost: 0n, nativeToken: 'ETH', decimals: 18, usdCost
+    });
+    const hop = { from: 'a', to: 'b', bridge: 'test', bridgeFee: 0n, feeUsd: 5, latency: 1000, privacyImpact: 0.1 };
+    const priced = [
+      route('bridged', { estimatedGas: 1000n, fee: fee(1), hops: [hop] }),
+      route('direct', { estimatedGas: 90_000n, fee: fee(3) })
+    ];
+
+    expect(routeCostUsd(priced[0])).toBe(6);
+    expect(best(new WeightedRouteScorer('cost'), priced)).toBe('direct');
+  });
+
+  it('recognizes mode names', () => {
+    expect(isOptimizationMode('speed')).toBe(true);
+    expect(isOptimizationMode('fastest')).toBe(false);
+  });
+});
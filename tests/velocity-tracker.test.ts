@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'bun:test';
+import { VelocityTracker } from '../src/intelligence/velocity-tracker';
+
+const MINUTE = 60 * 1000;
+const START = 1_700_000_000_000;
+
+function at(offset: number): bigint {
+  return BigInt(START + offset);
+}
+
+describe('VelocityTracker', () => {
+  it('counts payments and amounts per sliding window', () => {
+    const tracker = new VelocityTracker();
+    tracker.record('a', 100n, at(0));
+    tracker.record('a', 200n, at(30 * 1000));
+    tracker.record('a', 300n, at(10 * MINUTE));
+
+    expect(tracker.getUsage('a', at(10 * MINUTE))).toEqual([
+      { window: '1m', count: 1, amount: 300n },
+      { window: '1h', count: 3, amount: 600n },
+      { window: '1d', count: 3, amount: 600n }
+    ]);
+    expect(tracker.getUsage('a', at(61 * MINUTE))[1]).toEqual({ window: '1h', count: 1, amount: 300n });
+    expect(tracker.getUsage('b', at(0))[0].count).toBe(0);
+  });
+
+  it('reports count and amount breaches including the assessed payment', () => {
+    const tracker = new VelocityTracker({
+      windows: [{ name: '1m', duration: MINUTE, maxCount: 2, maxAmount: 1000n }]
+    });
+    tracker.record('a', 400n, at(0));
+    tracker.record('a', 400n, at(1000));
+
+    expect(tracker.check('a', 100n, at(2000)).breaches).toEqual([
+      { window: '1m', limit: 'count', value: 3n, max: 2n }
+    ]);
+    expect(tracker.check('a', 500n, at(2000)).breaches.map(b => b.limit)).toEqual(['count', 'amount']);
+    expect(tracker.check('a', 500n, at(2 * MINUTE)).breaches).toEqual([]);
+  });
+
+  it('drops payments already outside the window', () => {
+    const tracker = new VelocityTracker({ windows: [{ name: '1m', duration: MINUTE }] });
+    tracker.record('a', 100n, at(5 * MINUTE));
+    tracker.record('a', 100n, at(0));
+
+    expect(tracker.getUsage('a', at(5 * MINUTE))[0].count).toBe(1);
+  });
+
+  it('evicts the least recently active pseudonyms', () => {
+    const tracker = new VelocityTracker({ maxPseudonyms: 2 });
+    tracker.record('a', 1n, at(0));
+    tracker.record('b', 1n, at(0));
+    tracker.record('a', 1n, at(1000));
+    tracker.record('c', 1n, at(2000));
+
+    expect(tracker.size()).toBe(2);
+    expect(tracker.getUsage('b', at(2000))[0].count).toBe(0);
+    expect(tracker.getUsage('a', at(2000))[0].count).toBe(2);
+  });
+
+  it('rejects non-positive window durations', () => {
+    expect(() => new VelocityTracker({ windows: [{ name: 'bad', duration: 0 }] })).toThrow('must be positive');
+  });
+});
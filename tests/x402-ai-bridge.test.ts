@@ -0,0 +1,114 @@
+import { afterAll, afterEach, describe, expect, it, spyOn } from 'bun:test';
+import { X402AIBridge, X402PaymentRequest } from '../src/integration/x402-ai-bridge';
+import { FraudAssessment, FraudDetector } from '../src/intelligence/fraud-detector';
+import { PaymentBlockedError } from '../src/intelligence/fraud-policy';
+import { AIPaymentRouter } from '../src/intelligence/payment-optimizer';
+
+function request(overrides: Partial<X402PaymentRequest> = {}): X402PaymentRequest {
+  return {
+    stealthAddress: new Uint8Array(32).fill(9),
+    userPseudonym: new Uint8Array(32).fill(1),
+    amount: 1_000_000n,
+    commitment: new Uint8Array(32).fill(5),
+    ...overrides
+  };
+}
+
+function assessed(riskScore: number, flagged: boolean = false): FraudAssessment {
+  return {
+    riskScore,
+    riskLevel: 'medium',
+    anomalies: [],
+    confidence: 0.8,
+    hardLimits: [],
+    firedRules: [],
+    modelScores: {},
+    flagged
+  };
+}
+
+describe('X402AIBridge.optimizePayment fraud policy', () => {
+  const assessRisk = spyOn(FraudDetector.prototype, 'assessRisk');
+
+  afterAll(() => {
+    assessRisk.mockRestore();
+  });
+
+  for (const [risk, action] of [[0.65, 'require_reputation'], [0.75, 'hold'], [0.9, 'block']] as const) {
+    it(`refuses the route when the policy decides ${action}`, async () => {
+      assessRisk.mockResolvedValueOnce(assessed(risk));
+      const refused = await new X402AIBridge().optimizePayment(request()).catch(error => error);
+
+      expect(refused).toBeInstanceOf(PaymentBlockedError);
+      expect(refused.decision.action).toBe(action);
+    });
+  }
+
+  it('holds flagged payments below the hold threshold', async () => {
+    assessRisk.mockResolvedValueOnce(assessed(0.5, true));
+    const refused = await new X402AIBridge().optimizePayment(request()).catch(error => error);
+
+    expect(refused.decision.action).toBe('hold');
+  });
+
+  it('returns a route with stepped-up privacy', async () => {
+    assessRisk.mockResolvedValueOnce(assessed(0.5));
+    const optimized = await new X402AIBridge().optimizePayment(request());
+
+    expect(optimized.decision.action).toBe('step_up_privacy');
+    expect(optimized.route.chain).toBe(optimized.recommendedChain);
+  });
+});
+
+describe('X402AIBridge.learnFromPayment', () => {
+  const recordOutcome = spyOn(AIPaymentRouter.prototype, 'recordOutcome');
+  const updatePattern = spyOn(FraudDetector.prototype, 'updatePattern');
+
+  afterEach(() => {
+    recordOutcome.mockClear();
+    updatePattern.mockClear();
+  });
+
+  it('records the issued route and updates the fraud pattern', async () => {
+    const bridge = new X402AIBridge();
+    const payment = request({ targetChain: 'polygon' });
+    const optimized = await bridge.optimizePayment(payment);
+
+    await bridge.learnFromPayment(payment, true, 42_000n, undefined, 1500);
+
+    expect(recordOutcome).toHaveBeenCalledTimes(1);
+    expect(recordOutcome.mock.calls[0][0]).toMatchObject({
+      chain: optimized.recommendedChain,
+      amount: payment.amount,
+      success: true,
+      actualGas: 42_000n,
+      latency: 1500
+    });
+    expect(updatePattern).toHaveBeenCalledTimes(1);
+  });
+
+  it('records split legs in the ledger but the payment once in the fraud pattern', async () => {
+    const bridge = new X402AIBridge();
+    const payment = request({ amount: 1_000_000_000_000n, allowSplit: true, maxLegs: 3 });
+    const optimized = await bridge.optimizePayment(payment);
+    const legs = optimized.splitRoute!.legs;
+    expect(legs.length).toBeGreaterThan(1);
+
+    await bridge.learnFromPayment(payment, true, 90_000n);
+
+    expect(recordOutcome).toHaveBeenCalledTimes(legs.length);
+    expect(recordOutcome.mock.calls.map(([outcome]) => outcome.amount)).toEqual(legs.map(leg => leg.amount));
+    expect(updatePattern).toHaveBeenCalledTimes(1);
+    expect(updatePattern.mock.calls[0][0]).toMatchObject({ amount: payment.amount, chain: legs[0].route.chain });
+  });
+
+  it('still updates the fraud pattern when no chain is known', async () => {
+    const bridge = new X402AIBridge();
+
+    await bridge.learnFromPayment(request(), false, 0n);
+
+    expect(recordOutcome).not.toHaveBeenCalled();
+    expect(updatePattern).toHaveBeenCalledTimes(1);
+    expect(updatePattern.mock.calls[0][0].amount).toBe(1_000_000n);
+  });
+});